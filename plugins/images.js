@@ -0,0 +1,99 @@
+import { createHash } from 'node:crypto'
+import { readFile, stat } from 'node:fs/promises'
+import path from 'node:path'
+import sharp from 'sharp'
+import { IMAGE_FORMATS, IMAGE_WIDTHS } from '../src/lib/images.ts'
+
+export const IMAGE_PATH_PREFIX = '/assets/images/'
+
+const SUPPORTED_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.webp', '.avif']
+const QUALITY = { avif: 50, webp: 75 }
+const CONTENT_TYPES = { avif: 'image/avif', webp: 'image/webp' }
+const PLACEHOLDER_WIDTH = 16
+
+/** A missing or unsupported image, reported against the post that references it. */
+export class ImageError extends Error {
+  constructor(message) {
+    super(message)
+    this.name = 'ImageError'
+  }
+}
+
+/** `true` for paths relative to the post, like `./diagram.png`; URLs and site paths are left alone. */
+export function isLocalImage(url) {
+  return !/^(?:[a-z][a-z\d+.-]*:|\/|#)/i.test(url)
+}
+
+// Site path of every variant handed out so far -> its (lazily encoded) bytes.
+// The dev server serves from here and the client build emits all of it.
+const variants = new Map()
+const cache = new Map()
+
+function variantWidths(width) {
+  const largest = IMAGE_WIDTHS[IMAGE_WIDTHS.length - 1]
+  return [...new Set([...IMAGE_WIDTHS.filter((candidate) => candidate < width), Math.min(width, largest)])]
+}
+
+async function placeholderOf(source) {
+  const data = await sharp(source).autoOrient().resize(PLACEHOLDER_WIDTH).blur().webp({ quality: 40 }).toBuffer()
+  return `data:image/webp;base64,${data.toString('base64')}`
+}
+
+async function describeImage(filePath) {
+  const source = await readFile(filePath)
+  const metadata = await sharp(source).metadata()
+  const { width, height } = metadata.autoOrient ?? metadata
+  const extension = path.extname(filePath)
+  const hash = createHash('sha256').update(source).digest('hex').slice(0, 8)
+  const name = path.basename(filePath, extension).toLowerCase().replace(/[^a-z\d]+/g, '-')
+
+  const image = { width, height, variants: {} }
+  for (const format of IMAGE_FORMATS) {
+    image.variants[format] = variantWidths(width).map((variantWidth) => {
+      const src = `${IMAGE_PATH_PREFIX}${name}-${hash}-${variantWidth}.${format}`
+      let encoded
+      variants.set(src, {
+        format,
+        encode: () => (encoded ??= sharp(source)
+          .autoOrient()
+          .resize(variantWidth)
+          .toFormat(format, { quality: QUALITY[format] })
+          .toBuffer()),
+      })
+      return { src, width: variantWidth }
+    })
+  }
+  // A blurred backdrop would show through transparent pixels.
+  if (!metadata.hasAlpha) image.placeholder = await placeholderOf(source)
+  return image
+}
+
+/**
+ * Reads a local image and returns its `ResponsiveImageData` (src/lib/images.ts).
+ * Variant URLs are content-hashed, so the browser build and the prerender see
+ * the same ones; the variants themselves are only encoded when served or emitted.
+ */
+export async function processImage(filePath) {
+  if (!SUPPORTED_EXTENSIONS.includes(path.extname(filePath).toLowerCase())) {
+    throw new ImageError(`unsupported image ${path.basename(filePath)} (expected ${SUPPORTED_EXTENSIONS.join(', ')})`)
+  }
+  const { mtimeMs } = await stat(filePath).catch(() => {
+    throw new ImageError(`image not found: ${path.relative(process.cwd(), filePath)}`)
+  })
+  const cached = cache.get(filePath)
+  if (cached?.mtimeMs === mtimeMs) return cached.image
+
+  const image = await describeImage(filePath)
+  cache.set(filePath, { mtimeMs, image })
+  return image
+}
+
+/** Bytes and content type of a variant handed out by `processImage`, or `undefined`. */
+export async function readImageVariant(sitePath) {
+  const variant = variants.get(sitePath)
+  return variant && { contentType: CONTENT_TYPES[variant.format], data: await variant.encode() }
+}
+
+export function listImageVariants() {
+  return [...variants.keys()]
+}
@@ -0,0 +1,54 @@
+import remarkFrontmatter from 'remark-frontmatter'
+import remarkGfm from 'remark-gfm'
+import remarkMath from 'remark-math'
+import remarkMdxFrontmatter from 'remark-mdx-frontmatter'
+import rehypeRaw from 'rehype-raw'
+import { nodeTypes } from '@mdx-js/mdx'
+import rehypeShiki from '@shikijs/rehype'
+import rehypeDiagrams from './rehype-diagrams.js'
+import rehypeHeadingIds from './rehype-heading-ids.js'
+import remarkCallouts from './remark-callouts.js'
+import remarkGitHistory from './remark-git-history.js'
+import remarkImages from './remark-images.js'
+import remarkReadingTime from './remark-reading-time.js'
+import remarkValidateFrontmatter from './remark-validate-frontmatter.js'
+import rehypeMath from './rehype-math.js'
+import rehypeSidenotes from './rehype-sidenotes.js'
+import { codeBlockTransformers } from './shiki-transformers.js'
+
+// Plain Markdown may carry inline HTML, which MDX drops unless it is parsed into
+// elements; `.mdx` posts write JSX instead and skip the extra pass.
+function rehypeMarkdownHtml() {
+  const transform = rehypeRaw({ passThrough: nodeTypes })
+  return (tree, file) => (file.extname === '.md' ? transform(tree, file) : undefined)
+}
+
+/**
+ * The remark/rehype chain every post goes through, shared by the Vite MDX
+ * plugin and the build-time loader in posts.js so both see the same output.
+ * `mathOutput` is passed to rehype-math.js.
+ */
+export function createMdxOptions({ mode, mathOutput }) {
+  return {
+    remarkPlugins: [
+      remarkGfm,
+      // Prose mentions prices far more often than inline math.
+      [remarkMath, { singleDollarTextMath: false }],
+      remarkFrontmatter,
+      [remarkValidateFrontmatter, { dropUnpublished: mode === 'production' }],
+      [remarkMdxFrontmatter, { name: 'frontmatter' }],
+      remarkImages,
+      remarkCallouts,
+      remarkReadingTime,
+      remarkGitHistory,
+    ],
+    rehypePlugins: [
+      rehypeMarkdownHtml,
+      rehypeSidenotes,
+      rehypeHeadingIds,
+      [rehypeMath, { output: mathOutput }],
+      rehypeDiagrams,
+      [rehypeShiki, { theme: 'vitesse-dark', transformers: codeBlockTransformers() }],
+    ],
+  }
+}
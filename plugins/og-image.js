@@ -0,0 +1,163 @@
+import { readFile } from 'node:fs/promises'
+import { createRequire } from 'node:module'
+import { Resvg } from '@resvg/resvg-js'
+import satori from 'satori'
+import { LOCALE_INFO } from '../src/lib/i18n.ts'
+import { OG_IMAGE_HEIGHT, OG_IMAGE_WIDTH } from '../src/lib/og-image.ts'
+import { SITE_TITLE } from '../src/lib/site.ts'
+
+const require = createRequire(import.meta.url)
+
+// Site palette, from src/index.css.
+const COLORS = {
+  bg: '#0a0a0a',
+  text: '#d0d0d0',
+  textDim: '#707070',
+  accent: '#64b5f6',
+  accentDim: '#3a7bd5',
+  star: ['#e0e0e0', '#d0d0d0', '#a0a0a0', '#64b5f6', '#3a7bd5'],
+}
+
+// Stars snap to a grid of PIXEL-sized cells for the pixel-art look.
+const PIXEL = 6
+const STAR_COUNT = 320
+const BRIGHT_STAR_COUNT = 9
+
+// Fira Code has no Arabic, so Arabic titles and tags fall back to Noto Kufi Arabic.
+const FONT_FILES = [
+  ['Fira Code', 'fira-code', 'latin', 400],
+  ['Fira Code', 'fira-code', 'latin', 700],
+  ['Fira Code', 'fira-code', 'latin-ext', 400],
+  ['Fira Code', 'fira-code', 'latin-ext', 700],
+  ['Noto Kufi Arabic', 'noto-kufi-arabic', 'arabic', 400],
+  ['Noto Kufi Arabic', 'noto-kufi-arabic', 'arabic', 700],
+]
+
+let fonts
+
+function loadFonts() {
+  fonts ??= Promise.all(FONT_FILES.map(async ([name, font, subset, weight]) => ({
+    name,
+    weight,
+    style: 'normal',
+    data: await readFile(require.resolve(`@fontsource/${font}/files/${font}-${subset}-${weight}-normal.woff`)),
+  })))
+  return fonts
+}
+
+/** Deterministic PRNG (mulberry32) seeded from a string, so a slug always draws the same sky. */
+function seededRandom(seed) {
+  let state = 2166136261
+  for (const char of seed) {
+    state = Math.imul(state ^ char.codePointAt(0), 16777619)
+  }
+  return () => {
+    state = (state + 0x6d2b79f5) | 0
+    let t = Math.imul(state ^ (state >>> 15), 1 | state)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function starBackground(slug) {
+  const random = seededRandom(slug)
+  const columns = OG_IMAGE_WIDTH / PIXEL
+  const rows = Math.ceil(OG_IMAGE_HEIGHT / PIXEL)
+  const cell = (x, y, color, opacity) =>
+    `<rect x="${x * PIXEL}" y="${y * PIXEL}" width="${PIXEL}" height="${PIXEL}" fill="${color}" opacity="${opacity}"/>`
+  const pick = (list) => list[Math.floor(random() * list.length)]
+
+  const rects = []
+  for (let i = 0; i < STAR_COUNT; i += 1) {
+    const x = Math.floor(random() * columns)
+    const y = Math.floor(random() * rows)
+    rects.push(cell(x, y, pick(COLORS.star), (0.25 + random() * 0.6).toFixed(2)))
+  }
+  // A few brighter stars with a pixel cross around them.
+  for (let i = 0; i < BRIGHT_STAR_COUNT; i += 1) {
+    const x = 1 + Math.floor(random() * (columns - 2))
+    const y = 1 + Math.floor(random() * (rows - 2))
+    const color = pick(COLORS.star)
+    rects.push(cell(x, y, color, 1))
+    for (const [dx, dy] of [[-1, 0], [1, 0], [0, -1], [0, 1]]) {
+      rects.push(cell(x + dx, y + dy, color, 0.45))
+    }
+  }
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${OG_IMAGE_WIDTH}" height="${OG_IMAGE_HEIGHT}" shape-rendering="crispEdges"><rect width="100%" height="100%" fill="${COLORS.bg}"/>${rects.join('')}</svg>`
+  return `data:image/svg+xml;base64,${Buffer.from(svg).toString('base64')}`
+}
+
+// Satori takes React-style element objects; this keeps the tree readable without JSX.
+function h(type, style, ...children) {
+  return { type, props: { style, children: children.filter((child) => child !== null) } }
+}
+
+function titleSize(title) {
+  if (title.length > 80) return 44
+  if (title.length > 50) return 54
+  return 64
+}
+
+/** Renders a post's 1200x630 social card as PNG. No browser involved: satori lays it out, resvg rasterizes. */
+export async function renderOgImage({ slug, source, title, date, tags, lang }) {
+  const background = {
+    type: 'img',
+    props: {
+      src: starBackground(slug),
+      width: OG_IMAGE_WIDTH,
+      height: OG_IMAGE_HEIGHT,
+      style: { position: 'absolute', top: 0, left: 0 },
+    },
+  }
+
+  const prompt = h('div', { display: 'flex', fontSize: 26, color: COLORS.textDim },
+    h('span', { color: COLORS.accent, marginRight: 16 }, '$'),
+    `cat posts/${source}`,
+  )
+  const fontSize = titleSize(title)
+  const headingStyle = { display: 'flex', fontSize, fontWeight: 700, lineHeight: 1.25, color: COLORS.accent }
+  // Satori lays text out left to right only, so an RTL title is set one word
+  // per box in a reversed, right-aligned row.
+  const heading = LOCALE_INFO[lang].dir === 'rtl'
+    ? h('div', { ...headingStyle, flexDirection: 'row-reverse', flexWrap: 'wrap', columnGap: Math.round(fontSize * 0.3) },
+      ...title.split(/\s+/).map((word) => h('span', {}, word)))
+    : h('div', headingStyle, title)
+  const tagLine = tags.map((tag) => `[${tag}]`).join(' ')
+  const footer = h('div', {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'flex-end',
+    fontSize: 26,
+    color: COLORS.textDim,
+  },
+  h('div', { display: 'flex', flexDirection: 'column' },
+    h('span', { color: COLORS.text }, date.slice(0, 10)),
+    tagLine ? h('span', { color: COLORS.accentDim, marginTop: 8 }, tagLine) : null,
+  ),
+  h('span', { fontWeight: 700, color: COLORS.accent }, SITE_TITLE),
+  )
+
+  const panel = h('div', {
+    display: 'flex',
+    flexDirection: 'column',
+    justifyContent: 'space-between',
+    flex: 1,
+    margin: 60,
+    padding: '48px 56px',
+    border: '2px solid rgba(100, 181, 246, 0.35)',
+    backgroundColor: 'rgba(0, 0, 0, 0.78)',
+  }, prompt, heading, footer)
+
+  const card = h('div', {
+    display: 'flex',
+    position: 'relative',
+    width: OG_IMAGE_WIDTH,
+    height: OG_IMAGE_HEIGHT,
+    fontFamily: "'Fira Code', 'Noto Kufi Arabic'",
+    backgroundColor: COLORS.bg,
+  }, background, panel)
+
+  const svg = await satori(card, { width: OG_IMAGE_WIDTH, height: OG_IMAGE_HEIGHT, fonts: await loadFonts() })
+  return new Resvg(svg, { fitTo: { mode: 'original' }, font: { loadSystemFonts: false } }).render().asPng()
+}
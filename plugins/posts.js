@@ -0,0 +1,110 @@
+import { readdir, readFile, stat } from 'node:fs/promises'
+import path from 'node:path'
+import { pathToFileURL } from 'node:url'
+import { evaluate } from '@mdx-js/mdx'
+import { createElement } from 'react'
+import * as runtime from 'react/jsx-runtime'
+import { renderToStaticMarkup } from 'react-dom/server'
+import { getPostStatus } from '../src/lib/frontmatter.ts'
+import { fallbackSrc } from '../src/lib/images.ts'
+import { lastRevisedDate } from '../src/lib/revisions.ts'
+import { createMdxOptions } from './mdx-options.js'
+import recmaInlineJson from './recma-inline-json.js'
+
+export const CONTENT_DIR = 'src/content/blog'
+
+// Plain Markdown compiles without JSX; the MDX plugins pick the format from the extension.
+const POST_EXTENSIONS = ['.mdx', '.md']
+
+function isPostFile(name) {
+  return POST_EXTENSIONS.includes(path.extname(name))
+}
+
+/**
+ * Post sources as paths relative to the content directory: single files such
+ * as `hello-world.mdx`, or folders such as `my-post/index.md` that keep their
+ * images and data files next to the post.
+ */
+export async function listPostSources(root) {
+  const contentDir = path.join(root, CONTENT_DIR)
+  const entries = await readdir(contentDir, { withFileTypes: true }).catch(() => [])
+  const sources = await Promise.all(entries.map(async (entry) => {
+    if (entry.isFile()) return isPostFile(entry.name) ? [entry.name] : []
+    if (!entry.isDirectory()) return []
+    const files = await readdir(path.join(contentDir, entry.name))
+    return files
+      .filter((file) => isPostFile(file) && path.basename(file, path.extname(file)) === 'index')
+      .map((file) => `${entry.name}/${file}`)
+  }))
+  return sources.flat().sort()
+}
+
+/** The frontmatter `slug` when set, otherwise the file or folder name. */
+export function postSlug(frontmatter, source) {
+  const name = path.basename(source, path.extname(source))
+  return frontmatter.slug ?? (name === 'index' ? path.basename(path.dirname(source)) : name)
+}
+
+// Plain `<img>` for images processed by remark-images; feed readers get the
+// widest variant instead of a `<picture>`. `loading` keeps React from hoisting
+// `<link rel="preload">` tags into the rendered body.
+const components = {
+  img: ({ image, ...props }) => createElement('img', image
+    ? { loading: 'lazy', ...props, src: fallbackSrc(image), width: image.width, height: image.height }
+    : { loading: 'lazy', ...props }),
+  // Feed readers drop styles, so callouts keep only a bold `[type] title` line.
+  Callout: ({ type, title, children }) => createElement('blockquote', null,
+    createElement('p', null, createElement('strong', null, title ? `[${type}] ${title}` : `[${type}]`)),
+    children),
+  Diagram: ({ children }) => createElement('figure', null, children),
+  // The footnote list follows the post; margin notes need the site's styles.
+  FootnoteRef: ({ id, href, label }) => createElement('sup', null, createElement('a', { id, href }, label)),
+}
+
+// Several plugins load the posts in one build, and the dev server reloads them
+// on every request; compile each file again only when it changes.
+const cache = new Map()
+
+async function loadPost(root, source, mode) {
+  const filePath = path.join(root, CONTENT_DIR, source)
+  const { mtimeMs } = await stat(filePath)
+  const cached = cache.get(filePath)
+  if (cached && cached.mtimeMs === mtimeMs && cached.mode === mode) return cached.post
+
+  const value = await readFile(filePath, 'utf8')
+  const baseUrl = pathToFileURL(filePath)
+  // Feed readers have no KaTeX stylesheet; they render the MathML natively.
+  const { default: Content, frontmatter, history } = await evaluate(
+    { value, path: filePath },
+    { ...runtime, ...createMdxOptions({ mode, mathOutput: 'mathml' }), recmaPlugins: [[recmaInlineJson, { baseUrl }]], baseUrl },
+  )
+  const post = frontmatter && {
+    ...frontmatter,
+    // Same rule as the post manifest: an explicit `updated` wins over the git history.
+    updated: frontmatter.updated ?? lastRevisedDate(frontmatter.date, history),
+    slug: postSlug(frontmatter, filePath),
+    source,
+    filePath,
+    html: renderToStaticMarkup(createElement(Content, { components })),
+  }
+
+  cache.set(filePath, { mtimeMs, mode, post })
+  return post
+}
+
+/**
+ * Node-side counterpart of src/lib/posts.ts for build-time outputs (feeds and
+ * the like): compiles every post through the same MDX chain and renders its
+ * body to static HTML, without the site's `mdxComponents` styling.
+ * Returns only published posts, newest first.
+ */
+export async function loadPosts({ root, mode }) {
+  const sources = await listPostSources(root)
+  const posts = await Promise.all(
+    sources.map((source) => loadPost(root, source, mode)),
+  )
+
+  return posts
+    .filter((post) => post && getPostStatus(post) === 'published')
+    .sort((a, b) => Date.parse(b.date) - Date.parse(a.date))
+}
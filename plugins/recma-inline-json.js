@@ -0,0 +1,28 @@
+import { readFile } from 'node:fs/promises'
+import { fileURLToPath } from 'node:url'
+import { visit } from 'estree-util-visit'
+
+/**
+ * For `evaluate` in Node (plugins/posts.js): Node only imports a JSON file
+ * with a `with { type: 'json' }` attribute, which MDX cannot parse. Relative
+ * `.json` imports are swapped for a `data:` module with the same default
+ * export. Vite needs none of this.
+ */
+export default function recmaInlineJson({ baseUrl }) {
+  return async (tree) => {
+    const imports = []
+    visit(tree, (node) => {
+      // `evaluate` compiles `import x from './x.json'` to `import(_resolveDynamicMdxSpecifier('./x.json'))`.
+      const specifier = node.type === 'ImportExpression' ? node.source.arguments?.[0]?.value : undefined
+      if (typeof specifier === 'string' && specifier.startsWith('.') && specifier.endsWith('.json')) {
+        imports.push({ node, specifier })
+      }
+    })
+
+    for (const { node, specifier } of imports) {
+      const json = await readFile(fileURLToPath(new URL(specifier, baseUrl)), 'utf8')
+      const module = `export default ${JSON.stringify(JSON.parse(json))}`
+      node.source = { type: 'Literal', value: `data:text/javascript;base64,${Buffer.from(module).toString('base64')}` }
+    }
+  }
+}
@@ -0,0 +1,26 @@
+import { absoluteUrl } from '../src/lib/site.ts'
+import { escapeXml } from './xml.js'
+
+/**
+ * Static stand-in for an old post URL: a meta refresh for browsers and
+ * crawlers without JavaScript, a canonical link for search engines, and a
+ * script that keeps the `#fragment`.
+ */
+export function renderRedirectPage(to) {
+  const url = escapeXml(absoluteUrl(to))
+  return `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <title>Redirecting…</title>
+    <meta name="robots" content="noindex" />
+    <link rel="canonical" href="${url}" />
+    <meta http-equiv="refresh" content="0; url=${url}" />
+    <script>location.replace(${JSON.stringify(to).replace(/</g, '\\u003c')} + location.hash)</script>
+  </head>
+  <body>
+    <p>This post has moved to <a href="${url}">${url}</a>.</p>
+  </body>
+</html>
+`
+}
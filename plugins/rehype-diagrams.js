@@ -0,0 +1,177 @@
+import { readFileSync } from 'node:fs'
+import path from 'node:path'
+import { instance } from '@viz-js/viz'
+import { parseMermaid, renderMermaidSVG } from 'beautiful-mermaid'
+import { fromHtml } from 'hast-util-from-html'
+import { toString } from 'hast-util-to-string'
+import { visit } from 'unist-util-visit'
+
+// `--color-site-*` from the `@theme` block in src/index.css, as hex fallbacks
+// for places without the site stylesheet (feeds) and for Graphviz, which
+// only takes literal colors.
+const PALETTE = Object.fromEntries(
+  [...readFileSync(new URL('../src/index.css', import.meta.url), 'utf8').matchAll(/--color-(site-[\w-]+):\s*([^;]+);/g)]
+    .map(([, name, value]) => [name, value.trim()]),
+)
+
+function siteColor(name) {
+  return `var(--color-${name}, ${PALETTE[name]})`
+}
+
+const MERMAID_THEME = {
+  bg: siteColor('site-bg'),
+  fg: siteColor('site-text'),
+  line: siteColor('site-accent-dim'),
+  accent: siteColor('site-accent'),
+  muted: siteColor('site-text-dim'),
+  border: siteColor('site-accent-dim'),
+  transparent: true,
+}
+
+// Courier for Graphviz's text measurements; the page swaps in the site's
+// own monospace font, which has the same advance width.
+const DOT_DEFAULTS = {
+  graphAttributes: { bgcolor: 'transparent', color: PALETTE['site-accent-dim'], fontcolor: PALETTE['site-text'], fontname: 'Courier' },
+  nodeAttributes: { color: PALETTE['site-accent-dim'], fontcolor: PALETTE['site-text'], fontname: 'Courier' },
+  edgeAttributes: { color: PALETTE['site-accent-dim'], fontcolor: PALETTE['site-text-dim'], fontname: 'Courier' },
+}
+
+const FLOWCHART_HEADER_PATTERN = /^\s*(?:graph|flowchart)\b/
+// In a flowchart: comments and labels, skipped as they may hold anything;
+// edge operators (`-->`, `---`, `-.->`, `==>`, `--o`, `~~~`, the closing
+// half of `-. label .->`); the opening half of `-- label -->`; `;`.
+const FLOWCHART_TOKEN_PATTERN = /%%[^\n]*|"[^"]*"|\[[^\]\n]*\]|\([^)\n]*\)|\{[^}\n]*\}|\|[^|\n]*\||(<?(?:-{2,}>|-{3,}|={2,}>|={3,}|-\.+->?|\.-+>|-{2,}[ox]|~{3,}))|(--|==|-\.)(?= )|(;)/g
+
+/**
+ * beautiful-mermaid only reads flowchart edges with spaces around them
+ * (`A --> B`) and one statement per line, and drops any other edge without
+ * an error; spells the source that way and counts the edges it holds.
+ */
+function normalizeFlowchart(source) {
+  let edges = 0
+  const normalized = source.replace(FLOWCHART_TOKEN_PATTERN, (token, edge, labelStart, semicolon, offset) => {
+    if (semicolon) return '\n'
+    if (labelStart) return ` ${labelStart}`
+    if (!edge) return token
+    edges += 1
+    // `-->|label|` must stay joined.
+    return source[offset + token.length] === '|' ? ` ${edge}` : ` ${edge} `
+  })
+  return { source: normalized, edges }
+}
+
+function renderMermaid(source) {
+  if (!FLOWCHART_HEADER_PATTERN.test(source)) return renderMermaidSVG(source, MERMAID_THEME)
+
+  const flowchart = normalizeFlowchart(source)
+  const lost = flowchart.edges - parseMermaid(flowchart.source).edges.length
+  if (lost > 0) {
+    throw new Error(`${lost} of ${flowchart.edges} edges did not parse (supported: \`A --> B\`, \`A --- B\`, \`A -.-> B\`, \`A ==> B\`, \`A -->|label| B\`, \`A -- label --> B\`)`)
+  }
+  return renderMermaidSVG(flowchart.source, MERMAID_THEME)
+}
+
+let viz
+
+const RENDERERS = {
+  mermaid: renderMermaid,
+  dot: async (source) => {
+    viz ??= instance()
+    const result = (await viz).render(source, { format: 'svg', ...DOT_DEFAULTS })
+    if (result.status !== 'success') throw new Error(result.errors.map((error) => error.message).join('; '))
+    return result.output
+  },
+}
+RENDERERS.graphviz = RENDERERS.dot
+
+/**
+ * beautiful-mermaid styles its SVG with bare `svg` and `text` rules and web
+ * fonts from Google Fonts. Scopes the rules to the diagram and drops the
+ * fonts, so text falls back to the rest of each font stack the page already has.
+ */
+function scopeMermaidStyle(css, selector) {
+  let scoped = css.replace(/^\s*@import url\([^)]*\);\n/gm, '')
+  for (const [, family] of css.matchAll(/@import url\([^)]*family=([^:&)]+)/g)) {
+    scoped = scoped.replaceAll(`'${family.replaceAll('+', ' ')}', `, '')
+  }
+  return scoped.replace(/^(\s*)([^{}\s][^{}\n]*?)\s*\{/gm, (_, indent, rule) => `${indent}${rule === 'svg' ? selector : `${selector} ${rule}`} {`)
+}
+
+/**
+ * Renderers name their markers and groups the same in every diagram
+ * (`arrowhead`, `node1`), so prefixes each id, and the `url(#...)` and
+ * `#...` references to it, with the diagram's own.
+ */
+function prefixIds(svg, prefix) {
+  const ids = new Set()
+  visit(svg, 'element', (node) => {
+    if (node.properties.id === undefined) return
+    ids.add(String(node.properties.id))
+    node.properties.id = `${prefix}-${node.properties.id}`
+  })
+  visit(svg, 'element', (node) => {
+    for (const [name, value] of Object.entries(node.properties)) {
+      if (typeof value !== 'string') continue
+      node.properties[name] = value.startsWith('#') && ids.has(value.slice(1))
+        ? `#${prefix}-${value.slice(1)}`
+        : value.replace(/url\(#([^)]+)\)/g, (reference, id) => (ids.has(id) ? `url(#${prefix}-${id})` : reference))
+    }
+  })
+}
+
+function diagramLanguage(node) {
+  const [code] = node.children
+  if (node.tagName !== 'pre' || node.children.length !== 1 || code.tagName !== 'code') return undefined
+  const language = (code.properties.className ?? [])
+    .find((name) => String(name).startsWith('language-'))
+    ?.slice('language-'.length)
+  return language in RENDERERS ? language : undefined
+}
+
+/**
+ * Renders ` ```mermaid ` and ` ```dot ` (or ` ```graphviz `) fences to inline
+ * SVG at build time, so no diagram library reaches the browser. Mermaid goes
+ * through beautiful-mermaid, dot through Graphviz compiled to WebAssembly;
+ * both are colored with the site palette from src/index.css. The SVG is
+ * wrapped in `<Diagram type>`, rendered by the `Diagram` entry in
+ * `mdxComponents`. A diagram that does not parse fails the build at its
+ * line. Runs before Shiki, which would otherwise highlight the source.
+ */
+export default function rehypeDiagrams() {
+  return async (tree, file) => {
+    let count = 0
+    const found = []
+    visit(tree, 'element', (node, index, parent) => {
+      const language = diagramLanguage(node)
+      if (language && parent) found.push({ node, index, parent, language })
+    })
+
+    for (const { node, index, parent, language } of found) {
+      let svg
+      try {
+        svg = await RENDERERS[language](toString(node).trim())
+      } catch (error) {
+        const filePath = path.relative(process.cwd(), file.path)
+        file.fail(`Invalid ${language} diagram in ${filePath}: ${error.message}`, node, 'rehype-diagrams')
+      }
+
+      const markup = svg.slice(svg.indexOf('<svg')).replace(/<!--[\s\S]*?-->/g, '')
+      const fragment = fromHtml(markup, { fragment: true })
+      const root = fragment.children.find((child) => child.tagName === 'svg')
+      count += 1
+      const id = `diagram-${count}`
+      prefixIds(root, id)
+      root.properties.id = id
+      visit(root, { tagName: 'style' }, (style) => {
+        for (const text of style.children) text.value = scopeMermaidStyle(text.value, `#${id}`)
+      })
+      parent.children[index] = {
+        type: 'mdxJsxFlowElement',
+        name: 'Diagram',
+        attributes: [{ type: 'mdxJsxAttribute', name: 'type', value: language === 'graphviz' ? 'dot' : language }],
+        children: fragment.children.filter((child) => child.type === 'element'),
+        position: node.position,
+      }
+    }
+  }
+}
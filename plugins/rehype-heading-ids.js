@@ -0,0 +1,35 @@
+import GithubSlugger from 'github-slugger'
+import { valueToEstree } from 'estree-util-value-to-estree'
+import { toString } from 'hast-util-to-string'
+import { define } from 'unist-util-mdx-define'
+import { visit, SKIP } from 'unist-util-visit'
+import { buildTocTree } from '../src/lib/toc.ts'
+
+const HEADING_TAGS = new Set(['h1', 'h2', 'h3', 'h4', 'h5', 'h6'])
+
+/**
+ * Gives every Markdown heading a GitHub-style slug id (`## Setup` -> `setup`,
+ * repeats become `setup-1`) and exports the nested `tableOfContents` from the
+ * post. Headings deeper than `maxDepth` get ids but stay out of the TOC.
+ */
+export default function rehypeHeadingIds({ maxDepth = 4 } = {}) {
+  return (tree, file) => {
+    const slugger = new GithubSlugger()
+    const headings = []
+
+    visit(tree, 'element', (node) => {
+      // The footnote list's heading is not part of the post's outline.
+      if (node.properties.dataFootnotes !== undefined) return SKIP
+      if (!HEADING_TAGS.has(node.tagName)) return
+
+      const text = toString(node).trim()
+      const id = node.properties.id ? String(node.properties.id) : slugger.slug(text)
+      node.properties.id = id
+
+      const depth = Number(node.tagName.slice(1))
+      if (text && depth <= maxDepth) headings.push({ id, text, depth })
+    })
+
+    define(tree, file, { tableOfContents: valueToEstree(buildTocTree(headings)) })
+  }
+}
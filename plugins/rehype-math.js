@@ -0,0 +1,24 @@
+import path from 'node:path'
+import rehypeKatex from 'rehype-katex'
+
+/**
+ * Renders math parsed by remark-math to static HTML and MathML with KaTeX, so
+ * posts need no math script at runtime; the site loads KaTeX's stylesheet and
+ * fonts (src/main.tsx). Inline math is written `$$x$$` within a line, display
+ * math between `$$` lines; a single `$` stays a dollar sign. `output: 'mathml'`
+ * skips the HTML for places without that stylesheet, like feeds. Math that
+ * KaTeX cannot parse fails the build at its line instead of rendering red.
+ */
+export default function rehypeMath({ output = 'htmlAndMathml' } = {}) {
+  const render = rehypeKatex({ output })
+
+  return (tree, file) => {
+    const start = file.messages.length
+    render(tree, file)
+    const error = file.messages.slice(start).find((message) => message.source === 'rehype-katex')
+    if (error) {
+      const filePath = path.relative(process.cwd(), file.path)
+      file.fail(`Invalid math in ${filePath}: ${error.cause.message}`, error.place, 'rehype-math')
+    }
+  }
+}
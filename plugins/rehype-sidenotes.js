@@ -0,0 +1,90 @@
+import { toString } from 'hast-util-to-string'
+import { visit, SKIP } from 'unist-util-visit'
+import { DEFAULT_LOCALE, MESSAGES } from '../src/lib/i18n.ts'
+
+function isElement(node, tagName) {
+  return node?.type === 'element' && node.tagName === tagName
+}
+
+/**
+ * A footnote's paragraphs as inline content (`<p>` -> `<span>`) without its
+ * back-references, so it can sit inside the paragraph that references it.
+ * `undefined` when it holds anything but paragraphs, like a list or code.
+ */
+function inlineNote(item) {
+  const blocks = item.children.filter((child) => child.type !== 'text' || child.value.trim())
+  if (!blocks.every((block) => isElement(block, 'p'))) return undefined
+
+  const note = structuredClone(blocks).map((paragraph) => ({ ...paragraph, tagName: 'span', properties: { className: ['block'] } }))
+  visit({ type: 'root', children: note }, 'element', (node, index, parent) => {
+    if (node.properties.dataFootnoteBackref === undefined) return undefined
+    parent.children.splice(index, 1)
+    const previous = parent.children[index - 1]
+    if (previous?.type === 'text') previous.value = previous.value.trimEnd()
+    return [SKIP, index]
+  })
+  return note
+}
+
+/**
+ * Turns GFM footnote references into `<FootnoteRef id href label>` elements.
+ * The first reference to each note carries a copy of it, which the
+ * `FootnoteRef` entry in `mdxComponents` shows as a sidenote in the margin
+ * on wide screens and as a popover on narrow ones. The footnote list at the
+ * end of the post stays, with its heading and back-reference labels in the
+ * post's language; the reference links still point at it for keyboards,
+ * screen readers and readers without JavaScript.
+ */
+export default function rehypeSidenotes() {
+  return (tree, file) => {
+    const { post } = MESSAGES[file.data.frontmatter?.lang ?? DEFAULT_LOCALE]
+    const notes = new Map()
+
+    visit(tree, 'element', (node) => {
+      if (node.properties.dataFootnotes === undefined) return undefined
+      let number = 0
+      visit(node, 'element', (child) => {
+        if (isElement(child, 'h2')) {
+          child.properties = { id: child.properties.id }
+          child.children = [{ type: 'text', value: post.footnotes }]
+        } else if (isElement(child, 'li') && child.properties.id) {
+          number += 1
+          notes.set(String(child.properties.id), inlineNote(child))
+          // A note referenced k times links back to references `n`, `n-2`, ..., `n-k`.
+          let backReferences = 0
+          visit(child, 'element', (link) => {
+            if (link.properties.dataFootnoteBackref === undefined) return
+            backReferences += 1
+            link.properties.ariaLabel = post.backToReference(backReferences === 1 ? `${number}` : `${number}-${backReferences}`)
+          })
+          return SKIP
+        }
+        return undefined
+      })
+      return SKIP
+    })
+
+    // A note referenced again is already in the margin; later references only link to it.
+    const placed = new Set()
+    visit(tree, 'element', (node, index, parent) => {
+      const [link] = node.children
+      if (!isElement(node, 'sup') || link?.properties?.dataFootnoteRef === undefined || !parent) return undefined
+
+      const href = String(link.properties.href)
+      const note = placed.has(href) ? undefined : notes.get(href.slice(1))
+      placed.add(href)
+      parent.children[index] = {
+        type: 'mdxJsxTextElement',
+        name: 'FootnoteRef',
+        attributes: [
+          { type: 'mdxJsxAttribute', name: 'id', value: String(link.properties.id) },
+          { type: 'mdxJsxAttribute', name: 'href', value: href },
+          { type: 'mdxJsxAttribute', name: 'label', value: toString(link) },
+        ],
+        children: note ?? [],
+        position: node.position,
+      }
+      return SKIP
+    })
+  }
+}
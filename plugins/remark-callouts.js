@@ -0,0 +1,169 @@
+import path from 'node:path'
+import { directiveFromMarkdown } from 'mdast-util-directive'
+import { toString } from 'mdast-util-to-string'
+import { directive } from 'micromark-extension-directive'
+import { visit, SKIP } from 'unist-util-visit'
+import { CALLOUT_TYPES, GITHUB_ALERT_TYPES, isCalloutType } from '../src/lib/callouts.ts'
+
+// `[!WARNING]`, `[!WARNING]-` (collapsed) or `[!WARNING]+` (collapsible, open).
+const ALERT_PATTERN = /^\[!([A-Za-z]+)\]([+-])?[ \t]*/
+
+// Block directives only: inline `:name` would turn ordinary prose like
+// `10:30` or `note:` into directive nodes.
+const { flow: directiveFlow } = directive()
+
+// `:::warning{collapsible} Some title`, which the directive syntax only takes
+// as `:::warning[Some title]{collapsible}`.
+const TITLED_OPENING_PATTERN = /^(:{3,})([A-Za-z][\w-]*)(\{[^}\n]*\})?[ \t]+(\S.*?)[ \t]*(\r?)$/
+const OPENING_PATTERN = /^:{3,}[A-Za-z]/
+
+/**
+ * Rewrites `lines` so each callout opened with a title after its name takes
+ * it as a label instead. Such an opening does not parse as a directive, so
+ * it starts a paragraph; code never does. Any other paragraph starting like
+ * a directive fails the build. Returns whether a line changed.
+ */
+function labelTitles(tree, lines, file) {
+  let changed = false
+  visit(tree, 'paragraph', (node) => {
+    const { line, column } = node.position.start
+    const before = lines[line - 1].slice(0, column - 1)
+    const text = lines[line - 1].slice(column - 1)
+    const match = TITLED_OPENING_PATTERN.exec(text)
+    if (match) {
+      const [, fence, name, attributes = '', title, eol] = match
+      lines[line - 1] = `${before}${fence}${name}[${title}]${attributes}${eol}`
+      changed = true
+    } else if (OPENING_PATTERN.test(text)) {
+      const filePath = path.relative(process.cwd(), file.path)
+      file.fail(
+        `Unreadable callout opening in ${filePath}: expected \`:::type Title\` or \`:::type[Title]{attributes}\``,
+        node,
+        'remark-callouts',
+      )
+    }
+    return SKIP
+  })
+  return changed
+}
+
+/** A `::name` line is not a callout; it goes back to the text it was written as. */
+function restoreLeafDirective(node, file) {
+  const { start, end } = node.position
+  const value = String(file.value).split('\n')[start.line - 1].slice(start.column - 1, end.column - 1)
+  return { type: 'paragraph', children: [{ type: 'text', value, position: node.position }], position: node.position }
+}
+
+function attribute(name, value = null) {
+  return { type: 'mdxJsxAttribute', name, value }
+}
+
+function callout(type, title, collapsible, children, position) {
+  return {
+    type: 'mdxJsxFlowElement',
+    name: 'Callout',
+    attributes: [
+      attribute('type', type),
+      ...(title ? [attribute('title', title)] : []),
+      ...(collapsible ? [attribute('collapsible')] : []),
+      ...(collapsible === 'open' ? [attribute('open')] : []),
+    ],
+    children,
+    position,
+  }
+}
+
+function fromDirective(node, file) {
+  if (!isCalloutType(node.name)) {
+    const filePath = path.relative(process.cwd(), file.path)
+    file.fail(
+      `Unknown callout :::${node.name} in ${filePath} (expected ${CALLOUT_TYPES.join(', ')})`,
+      node,
+      'remark-callouts',
+    )
+  }
+  const [first, ...rest] = node.children
+  const hasLabel = first?.data?.directiveLabel
+  const attributes = node.attributes ?? {}
+  const collapsible = 'collapsible' in attributes ? ('open' in attributes ? 'open' : 'closed') : undefined
+  return callout(node.name, hasLabel ? toString(first) : '', collapsible, hasLabel ? rest : node.children, node.position)
+}
+
+/** The callout for a `> [!TYPE] Title` blockquote, or `undefined` for an ordinary quote. */
+function fromAlert(node) {
+  const [paragraph, ...rest] = node.children
+  const [first, ...inline] = paragraph?.type === 'paragraph' ? paragraph.children : []
+  const match = first?.type === 'text' && ALERT_PATTERN.exec(first.value)
+  const type = match && GITHUB_ALERT_TYPES[match[1].toUpperCase()]
+  if (!type) return undefined
+
+  // The title is whatever follows the marker on its line; the rest of the
+  // paragraph is body text.
+  const title = []
+  const body = [{ ...first, value: first.value.slice(match[0].length) }, ...inline]
+  while (body.length) {
+    const next = body.shift()
+    const newline = next.type === 'text' ? next.value.indexOf('\n') : -1
+    if (newline === -1) {
+      title.push(next)
+      continue
+    }
+    title.push({ ...next, value: next.value.slice(0, newline) })
+    body.unshift({ ...next, value: next.value.slice(newline + 1) })
+    break
+  }
+  if (body[0]?.type === 'text' && !body[0].value) body.shift()
+
+  const collapsible = { '-': 'closed', '+': 'open' }[match[2]]
+  const children = body.length ? [{ ...paragraph, children: body }, ...rest] : rest
+  return callout(type, toString({ type: 'paragraph', children: title }).trim(), collapsible, children, node.position)
+}
+
+/**
+ * Note/tip/warning/danger callouts (src/lib/callouts.ts), written either as
+ * a directive:
+ *
+ *     :::warning{collapsible} Optional title
+ *     Body in **Markdown**.
+ *     :::
+ *
+ * or as a GitHub alert, where `-`/`+` after the marker make it collapsible
+ * (closed/open):
+ *
+ *     > [!WARNING]- Optional title
+ *     > Body in **Markdown**.
+ *
+ * Both become `<Callout type title collapsible open>` elements, rendered by
+ * the `Callout` entry in `mdxComponents`. The directive title may also be
+ * written as a label, `:::warning[Optional title]`, and `{collapsible open}`
+ * starts a collapsible directive expanded. An unknown `:::name` fails the build at its
+ * line; quotes with unknown alert markers stay quotes.
+ */
+export default function remarkCallouts() {
+  const data = this.data()
+  ;(data.micromarkExtensions ??= []).push({ flow: directiveFlow })
+  ;(data.fromMarkdownExtensions ??= []).push(directiveFromMarkdown())
+
+  // Line numbers and the columns of every other line stay those of the file.
+  const parse = this.parser
+  this.parser = (value, file) => {
+    const lines = String(value).split('\n')
+    let tree = parse(value, file)
+    while (labelTitles(tree, lines, file)) tree = parse(lines.join('\n'), file)
+    return tree
+  }
+
+  return (tree, file) => {
+    visit(tree, 'leafDirective', (node, index, parent) => {
+      if (parent) parent.children[index] = restoreLeafDirective(node, file)
+      return SKIP
+    })
+    visit(tree, ['containerDirective', 'blockquote'], (node, index, parent) => {
+      const replacement = node.type === 'containerDirective' ? fromDirective(node, file) : fromAlert(node)
+      if (!replacement || !parent) return undefined
+      // Visit the replacement next, so callouts nested in its body convert too.
+      parent.children[index] = replacement
+      return index
+    })
+  }
+}
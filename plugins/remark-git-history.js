@@ -0,0 +1,62 @@
+import { execFile } from 'node:child_process'
+import path from 'node:path'
+import { promisify } from 'node:util'
+import { define } from 'unist-util-mdx-define'
+import { valueToEstree } from 'estree-util-value-to-estree'
+
+const run = promisify(execFile)
+
+// Control characters that cannot appear in commit subjects or dates.
+const RECORD = '\x1e'
+const FIELD = '\x1f'
+
+function parseLog(output) {
+  return output
+    .split(RECORD)
+    .filter((record) => record.trim())
+    .map((record) => {
+      const newline = record.indexOf('\n')
+      const [hash, date, message] = record.slice(0, newline).split(FIELD)
+      const patch = record.slice(newline + 1)
+      // Keep the hunks only; the `diff --git`/`index`/`---`/`+++` header says nothing new.
+      const hunks = patch.indexOf('\n@@')
+      return { hash, date, message, diff: hunks === -1 ? '' : patch.slice(hunks + 1).trimEnd() }
+    })
+}
+
+async function readHistory(filePath) {
+  try {
+    const { stdout } = await run('git', [
+      'log',
+      '--follow',
+      '--no-color',
+      '--no-ext-diff',
+      '--patch',
+      `--format=${RECORD}%h${FIELD}%aI${FIELD}%s`,
+      '--',
+      path.basename(filePath),
+    ], { cwd: path.dirname(filePath), maxBuffer: 32 * 1024 * 1024 })
+    return parseLog(stdout)
+  } catch {
+    // Not a git checkout (e.g. a source tarball); ship the post without history.
+    return []
+  }
+}
+
+/**
+ * Exports `history`, every commit that touched the post's file (newest first,
+ * following renames) with its message and diff, and leaves it on
+ * `file.data.history` for the post manifest. The commit that added the file
+ * gets `diff: null` instead of repeating the whole post. Outside a git checkout,
+ * or for uncommitted posts, the history is empty.
+ */
+export default function remarkGitHistory() {
+  return async (tree, file) => {
+    // Unpublished posts compile to nothing in production, so skip git for them.
+    const history = file.path && file.data.frontmatter !== null ? await readHistory(file.path) : []
+    if (history.length > 0) history[history.length - 1].diff = null
+
+    file.data.history = history
+    define(tree, file, { history: valueToEstree(history) })
+  }
+}
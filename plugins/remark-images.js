@@ -0,0 +1,61 @@
+import path from 'node:path'
+import { valueToEstree } from 'estree-util-value-to-estree'
+import { visit } from 'unist-util-visit'
+import { ImageError, isLocalImage, processImage } from './images.js'
+
+function attribute(name, value) {
+  return { type: 'mdxJsxAttribute', name, value }
+}
+
+function expressionAttribute(name, value) {
+  const expression = valueToEstree(value)
+  return attribute(name, {
+    type: 'mdxJsxAttributeValueExpression',
+    value: JSON.stringify(value),
+    data: {
+      estree: {
+        type: 'Program',
+        sourceType: 'module',
+        body: [{ type: 'ExpressionStatement', expression }],
+      },
+    },
+  })
+}
+
+/**
+ * Turns images referenced relative to the post (`![alt](./diagram.png)`) into
+ * `<img image={...}>`, where `image` is the `ResponsiveImageData` from
+ * plugins/images.js; the `img` entry in `mdxComponents` renders it as a
+ * `<picture>`. A missing or unsupported file fails the build at its line.
+ */
+export default function remarkImages() {
+  return async (tree, file) => {
+    const found = []
+    visit(tree, 'image', (node, index, parent) => {
+      if (parent && isLocalImage(node.url)) found.push({ node, index, parent })
+    })
+
+    for (const { node, index, parent } of found) {
+      let image
+      try {
+        image = await processImage(path.resolve(path.dirname(file.path), decodeURI(node.url)))
+      } catch (error) {
+        if (!(error instanceof ImageError)) throw error
+        const filePath = path.relative(process.cwd(), file.path)
+        file.fail(`Invalid image in ${filePath}: ${error.message}`, node, 'remark-images')
+      }
+
+      parent.children[index] = {
+        type: 'mdxJsxTextElement',
+        name: 'img',
+        attributes: [
+          attribute('alt', node.alt ?? ''),
+          ...(node.title ? [attribute('title', node.title)] : []),
+          expressionAttribute('image', image),
+        ],
+        children: [],
+        position: node.position,
+      }
+    }
+  }
+}
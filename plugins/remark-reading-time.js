@@ -0,0 +1,39 @@
+import { valueToEstree } from 'estree-util-value-to-estree'
+import { define } from 'unist-util-mdx-define'
+import { visit, SKIP } from 'unist-util-visit'
+import { countWords, estimateReadingMinutes } from '../src/lib/reading-time.ts'
+
+// ESM, expressions and frontmatter are not part of what a reader reads.
+const IGNORED_NODES = new Set(['yaml', 'mdxjsEsm', 'mdxFlowExpression', 'mdxTextExpression'])
+
+/**
+ * Exports `readingTime` ({ wordCount, minutes }) from every post. Prose and
+ * code are counted separately (see src/lib/reading-time.ts); a
+ * `readingMinutes` frontmatter value, read from `file.data.frontmatter`,
+ * replaces the estimate. Must run after remark-validate-frontmatter. The
+ * value is also left on `file.data.readingTime` for the post manifest plugin.
+ */
+export default function remarkReadingTime() {
+  return (tree, file) => {
+    let proseWords = 0
+    let codeWords = 0
+    let codeLines = 0
+
+    visit(tree, (node) => {
+      if (IGNORED_NODES.has(node.type)) return SKIP
+      if (node.type === 'code') {
+        codeWords += countWords(node.value)
+        codeLines += node.value.split('\n').filter((line) => line.trim()).length
+      } else if (node.type === 'text' || node.type === 'inlineCode') {
+        proseWords += countWords(node.value)
+      }
+    })
+
+    const readingTime = {
+      wordCount: proseWords + codeWords,
+      minutes: file.data.frontmatter?.readingMinutes ?? estimateReadingMinutes(proseWords, codeLines),
+    }
+    file.data.readingTime = readingTime
+    define(tree, file, { readingTime: valueToEstree(readingTime) })
+  }
+}
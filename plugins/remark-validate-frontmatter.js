@@ -0,0 +1,44 @@
+import path from 'node:path'
+import { parse as parseYaml } from 'yaml'
+import { FrontmatterError, getPostStatus, parseFrontmatter } from '../src/lib/frontmatter.ts'
+
+/**
+ * Validates each post's YAML frontmatter against `frontmatterSchema` and
+ * rewrites it in normalized form, so `remark-mdx-frontmatter` (which must run
+ * after this plugin) exports exactly what the `Frontmatter` type promises.
+ * Fails the build, or the dev-server transform, with the file path and field.
+ * Later plugins can read the exported value from `file.data.frontmatter`.
+ *
+ * With `dropUnpublished`, drafts and scheduled posts compile to an empty body
+ * with `frontmatter` set to `null`, so none of their content reaches the bundle.
+ * Their validated frontmatter is kept on `file.data.unpublishedFrontmatter`
+ * for checks that need the whole collection, like series numbering.
+ */
+export default function remarkValidateFrontmatter({ dropUnpublished = false } = {}) {
+  return (tree, file) => {
+    const node = tree.children.find((child) => child.type === 'yaml')
+    const filePath = file.path ? path.relative(process.cwd(), file.path) : '<unknown file>'
+
+    let frontmatter
+    try {
+      frontmatter = parseFrontmatter(node ? parseYaml(node.value) : undefined)
+    } catch (error) {
+      const reason = error instanceof FrontmatterError
+        ? error.message
+        : `unparseable YAML (${error.message})`
+      file.fail(`Invalid frontmatter in ${filePath}: ${reason}`, node, 'remark-validate-frontmatter')
+    }
+
+    if (dropUnpublished && getPostStatus(frontmatter) !== 'published') {
+      file.data.frontmatter = null
+      file.data.unpublishedFrontmatter = frontmatter
+      node.value = 'null'
+      tree.children = [node]
+      return
+    }
+
+    file.data.frontmatter = frontmatter
+    // JSON is valid YAML, so the normalized values round-trip unchanged.
+    node.value = JSON.stringify(frontmatter)
+  }
+}
@@ -0,0 +1,46 @@
+import {
+  transformerMetaHighlight,
+  transformerNotationDiff,
+  transformerNotationFocus,
+  transformerNotationHighlight,
+} from '@shikijs/transformers'
+
+const TITLE_PATTERN = /(?:^|\s)title=(["'])(.*?)\1/
+const LINE_NUMBERS_PATTERN = /(?:^|\s)showLineNumbers(?=\s|$)/
+
+/** Copies `title="..."` and `showLineNumbers` from the fence meta onto `<pre>`. */
+function transformerCodeMeta() {
+  return {
+    name: 'chiboub:code-meta',
+    pre(node) {
+      const meta = this.options.meta?.__raw ?? ''
+      const title = TITLE_PATTERN.exec(meta)?.[2]
+      if (title) node.properties.dataTitle = title
+      if (LINE_NUMBERS_PATTERN.test(meta)) node.properties.dataLineNumbers = ''
+    },
+  }
+}
+
+/**
+ * Shiki transformers for code fences in posts:
+ *
+ *     ```ts title="vite.config.ts" {3,7-9} showLineNumbers
+ *     const added = true // [!code ++]
+ *     const removed = true // [!code --]
+ *     const focused = true // [!code focus]
+ *     ```
+ *
+ * Meta line ranges and `// [!code highlight]` mark lines `.highlighted`,
+ * diff markers `.diff.add`/`.diff.remove` and focus markers `.focused`; the
+ * markers themselves are removed from the output. Styled in src/index.css;
+ * the `pre` entry in `mdxComponents` renders the title and copy button.
+ */
+export function codeBlockTransformers() {
+  return [
+    transformerCodeMeta(),
+    transformerMetaHighlight(),
+    transformerNotationHighlight(),
+    transformerNotationDiff(),
+    transformerNotationFocus(),
+  ]
+}
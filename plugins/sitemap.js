@@ -0,0 +1,28 @@
+import { SITE_URL, absoluteUrl } from '../src/lib/site.ts'
+import { escapeXml } from './xml.js'
+
+/** `pages` are the prerendered pages, so drafts and unknown routes never appear. */
+export function renderSitemap(pages) {
+  const urls = pages.map((page) => {
+    const lastmod = page.lastModified ? `\n    <lastmod>${page.lastModified.slice(0, 10)}</lastmod>` : ''
+    return `  <url>\n    <loc>${escapeXml(absoluteUrl(page.path))}</loc>${lastmod}\n  </url>`
+  })
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${urls.join('\n')}
+</urlset>
+`
+}
+
+export function renderRobots() {
+  return `User-agent: *
+Allow: /
+
+Sitemap: ${absoluteUrl('/sitemap.xml')}
+`
+}
+
+/** GitHub Pages custom-domain file, derived from `SITE_URL` so the domain is set in one place. */
+export function renderCname() {
+  return `${new URL(SITE_URL).hostname}\n`
+}
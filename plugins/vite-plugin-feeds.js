@@ -0,0 +1,151 @@
+import { SITE_AUTHOR, SITE_LANGUAGE, SITE_TITLE, BLOG_DESCRIPTION, absoluteUrl, postPath } from '../src/lib/site.ts'
+import { loadPosts } from './posts.js'
+import { escapeXml } from './xml.js'
+
+const FEED_TYPES = {
+  '/rss.xml': 'application/rss+xml; charset=utf-8',
+  '/atom.xml': 'application/atom+xml; charset=utf-8',
+  '/feed.json': 'application/feed+json; charset=utf-8',
+}
+
+function cdata(value) {
+  return `<![CDATA[${value.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`
+}
+
+// Feed readers resolve nothing against the site, so root-relative links must be absolute.
+function absolutizeLinks(html) {
+  return html.replace(/(href|src)="\/(?!\/)/g, (_, attribute) => `${attribute}="${absoluteUrl('/')}`)
+}
+
+function toFeedItems(posts) {
+  return posts.map((post) => ({
+    ...post,
+    updated: post.updated ?? post.date,
+    url: absoluteUrl(postPath(post.slug, post.lang)),
+    html: absolutizeLinks(post.html),
+  }))
+}
+
+// A revision to an older post still counts as the feed changing.
+function lastUpdated(items) {
+  return items.reduce((latest, item) => (Date.parse(item.updated) > Date.parse(latest) ? item.updated : latest), new Date(0).toISOString())
+}
+
+function renderRss(items) {
+  const entries = items.map((item) => `    <item>
+      <title>${escapeXml(item.title)}</title>
+      <link>${item.url}</link>
+      <guid isPermaLink="true">${item.url}</guid>
+      <pubDate>${new Date(item.date).toUTCString()}</pubDate>
+      <description>${escapeXml(item.description)}</description>
+${item.tags.map((tag) => `      <category>${escapeXml(tag)}</category>\n`).join('')}      <content:encoded>${cdata(item.html)}</content:encoded>
+    </item>`)
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/">
+  <channel>
+    <title>${escapeXml(SITE_TITLE)}</title>
+    <link>${absoluteUrl('/blog')}</link>
+    <description>${escapeXml(BLOG_DESCRIPTION)}</description>
+    <language>${SITE_LANGUAGE}</language>
+    <atom:link href="${absoluteUrl('/rss.xml')}" rel="self" type="application/rss+xml" />
+${items.length > 0 ? `    <lastBuildDate>${new Date(lastUpdated(items)).toUTCString()}</lastBuildDate>\n` : ''}${entries.join('\n')}
+  </channel>
+</rss>
+`
+}
+
+function renderAtom(items) {
+  const entries = items.map((item) => `  <entry xml:lang="${item.lang}">
+    <id>${item.url}</id>
+    <title>${escapeXml(item.title)}</title>
+    <link href="${item.url}" />
+    <published>${item.date}</published>
+    <updated>${item.updated}</updated>
+    <summary>${escapeXml(item.description)}</summary>
+${item.tags.map((tag) => `    <category term="${escapeXml(tag)}" />\n`).join('')}    <content type="html">${escapeXml(item.html)}</content>
+  </entry>`)
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="${SITE_LANGUAGE}">
+  <id>${absoluteUrl('/blog')}</id>
+  <title>${escapeXml(SITE_TITLE)}</title>
+  <subtitle>${escapeXml(BLOG_DESCRIPTION)}</subtitle>
+  <link href="${absoluteUrl('/blog')}" />
+  <link href="${absoluteUrl('/atom.xml')}" rel="self" type="application/atom+xml" />
+  <updated>${lastUpdated(items)}</updated>
+  <author><name>${escapeXml(SITE_AUTHOR)}</name></author>
+${entries.join('\n')}
+</feed>
+`
+}
+
+function renderJsonFeed(items) {
+  const feed = {
+    version: 'https://jsonfeed.org/version/1.1',
+    title: SITE_TITLE,
+    home_page_url: absoluteUrl('/blog'),
+    feed_url: absoluteUrl('/feed.json'),
+    description: BLOG_DESCRIPTION,
+    language: SITE_LANGUAGE,
+    authors: [{ name: SITE_AUTHOR, url: absoluteUrl('/') }],
+    items: items.map((item) => ({
+      id: item.url,
+      url: item.url,
+      title: item.title,
+      summary: item.description,
+      content_html: item.html,
+      date_published: item.date,
+      date_modified: item.updated,
+      tags: item.tags,
+      language: item.lang,
+    })),
+  }
+  return `${JSON.stringify(feed, null, 2)}\n`
+}
+
+async function renderFeeds(options) {
+  const items = toFeedItems(await loadPosts(options))
+  return {
+    '/rss.xml': renderRss(items),
+    '/atom.xml': renderAtom(items),
+    '/feed.json': renderJsonFeed(items),
+  }
+}
+
+/**
+ * Emits RSS 2.0, Atom and JSON Feed documents for the published posts.
+ * The dev server renders them on request so the discovery links in
+ * index.html resolve there too.
+ */
+export default function feeds() {
+  let config
+
+  return {
+    name: 'chiboub:feeds',
+    configResolved(resolvedConfig) {
+      config = resolvedConfig
+    },
+    configureServer(server) {
+      server.middlewares.use(async (req, res, next) => {
+        const contentType = FEED_TYPES[req.url]
+        if (!contentType) return next()
+        try {
+          const documents = await renderFeeds({ root: config.root, mode: config.mode })
+          res.setHeader('Content-Type', contentType)
+          res.end(documents[req.url])
+        } catch (error) {
+          next(error)
+        }
+      })
+    },
+    async generateBundle() {
+      // The prerenderer's server build has no use for feeds.
+      if (config.build.ssr) return
+      const documents = await renderFeeds({ root: config.root, mode: config.mode })
+      for (const [pathname, source] of Object.entries(documents)) {
+        this.emitFile({ type: 'asset', fileName: pathname.slice(1), source })
+      }
+    },
+  }
+}
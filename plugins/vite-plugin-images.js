@@ -0,0 +1,39 @@
+import { IMAGE_PATH_PREFIX, listImageVariants, readImageVariant } from './images.js'
+
+/**
+ * Delivers the image variants that plugins/images.js handed out while posts
+ * and covers were compiled: the dev server encodes them on request, and the
+ * client build emits every one under `IMAGE_PATH_PREFIX`.
+ */
+export default function images() {
+  let config
+
+  return {
+    name: 'chiboub:images',
+    configResolved(resolvedConfig) {
+      config = resolvedConfig
+    },
+    configureServer(server) {
+      server.middlewares.use(async (req, res, next) => {
+        const pathname = req.url?.split('?')[0] ?? ''
+        if (!pathname.startsWith(IMAGE_PATH_PREFIX)) return next()
+        try {
+          const variant = await readImageVariant(pathname)
+          if (!variant) return next()
+          res.setHeader('Content-Type', variant.contentType)
+          res.end(variant.data)
+        } catch (error) {
+          next(error)
+        }
+      })
+    },
+    async generateBundle() {
+      // The prerenderer's server build only needs the URLs.
+      if (config.build.ssr) return
+      for (const sitePath of listImageVariants()) {
+        const { data } = await readImageVariant(sitePath)
+        this.emitFile({ type: 'asset', fileName: sitePath.slice(1), source: data })
+      }
+    },
+  }
+}
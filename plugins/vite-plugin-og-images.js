@@ -0,0 +1,44 @@
+import { ogImagePath } from '../src/lib/og-image.ts'
+import { renderOgImage } from './og-image.js'
+import { loadPosts } from './posts.js'
+
+const OG_PATH_PATTERN = /^\/og\/([^/]+)\.png$/
+
+/**
+ * Emits a social card PNG for every published post at `ogImagePath(slug)`.
+ * The dev server renders them on request, so the `og:image` URLs resolve
+ * there too.
+ */
+export default function ogImages() {
+  let config
+
+  return {
+    name: 'chiboub:og-images',
+    configResolved(resolvedConfig) {
+      config = resolvedConfig
+    },
+    configureServer(server) {
+      server.middlewares.use(async (req, res, next) => {
+        const slug = OG_PATH_PATTERN.exec(req.url ?? '')?.[1]
+        if (!slug) return next()
+        try {
+          const posts = await loadPosts({ root: config.root, mode: config.mode })
+          const post = posts.find((candidate) => candidate.slug === decodeURIComponent(slug))
+          if (!post) return next()
+          res.setHeader('Content-Type', 'image/png')
+          res.end(await renderOgImage(post))
+        } catch (error) {
+          next(error)
+        }
+      })
+    },
+    async generateBundle() {
+      // The prerenderer's server build has no use for images.
+      if (config.build.ssr) return
+      const posts = await loadPosts({ root: config.root, mode: config.mode })
+      for (const post of posts) {
+        this.emitFile({ type: 'asset', fileName: ogImagePath(post.slug).slice(1), source: await renderOgImage(post) })
+      }
+    },
+  }
+}
@@ -0,0 +1,152 @@
+import { readFile, stat } from 'node:fs/promises'
+import path from 'node:path'
+import remarkMdx from 'remark-mdx'
+import remarkParse from 'remark-parse'
+import { unified } from 'unified'
+import { VFile } from 'vfile'
+import { buildPostLinks } from '../src/lib/post-links.ts'
+import { SlugError, buildRedirects } from '../src/lib/redirects.ts'
+import { lastRevisedDate } from '../src/lib/revisions.ts'
+import { SeriesError, buildSeries } from '../src/lib/series.ts'
+import { TranslationError, buildTranslations } from '../src/lib/translations.ts'
+import { ImageError, processImage } from './images.js'
+import { createMdxOptions } from './mdx-options.js'
+import { CONTENT_DIR, listPostSources, postSlug } from './posts.js'
+
+const VIRTUAL_ID = 'virtual:post-manifest'
+const RESOLVED_ID = `\0${VIRTUAL_ID}`
+
+/**
+ * Serves `virtual:post-manifest`, the eagerly imported metadata for every post
+ * (src/lib/posts.ts), plus whatever needs the whole collection at once:
+ * previous/next and related-post links, series, translations, and alias
+ * redirects. A broken series (a gap or a repeated `seriesOrder`), two posts
+ * claiming the same slug or alias, or two translations of a post in the same
+ * language fail the build. Series are checked with their draft and scheduled
+ * parts included, then shipped with only the published ones. Only the remark
+ * half of the MDX chain runs here (no rehype, no Shiki); compiled bodies stay
+ * in lazy chunks.
+ */
+export default function postManifest() {
+  let config
+  // Like the MDX plugin, `.md` posts are parsed without MDX syntax.
+  let processors
+  const cache = new Map()
+
+  async function readCover(filePath, cover) {
+    try {
+      return await processImage(path.resolve(path.dirname(filePath), cover))
+    } catch (error) {
+      if (!(error instanceof ImageError)) throw error
+      throw new ImageError(`Invalid cover in ${path.relative(config.root, filePath)}: ${error.message}`)
+    }
+  }
+
+  async function readMeta(source) {
+    const filePath = path.join(config.root, CONTENT_DIR, source)
+    const { mtimeMs } = await stat(filePath)
+    const cached = cache.get(filePath)
+    if (cached?.mtimeMs === mtimeMs) return cached.meta
+
+    const file = new VFile({ path: filePath, value: await readFile(filePath, 'utf8') })
+    const processor = processors[path.extname(filePath) === '.md' ? 'md' : 'mdx']
+    await processor.run(processor.parse(file), file)
+    const { frontmatter, unpublishedFrontmatter } = file.data
+    // Drafts dropped from a production build still count as series parts, so
+    // numbering is checked the same way there as in dev.
+    if (unpublishedFrontmatter) {
+      const meta = { ...unpublishedFrontmatter, slug: postSlug(unpublishedFrontmatter, source), source, unpublished: true }
+      cache.set(filePath, { mtimeMs, meta })
+      return meta
+    }
+    const meta = frontmatter && {
+      ...frontmatter,
+      cover: frontmatter.cover && await readCover(filePath, frontmatter.cover),
+      // An explicit `updated` wins over the git history.
+      updated: frontmatter.updated ?? lastRevisedDate(frontmatter.date, file.data.history),
+      slug: postSlug(frontmatter, source),
+      source,
+      wordCount: file.data.readingTime.wordCount,
+      readingMinutes: file.data.readingTime.minutes,
+    }
+
+    cache.set(filePath, { mtimeMs, meta })
+    return meta
+  }
+
+  return {
+    name: 'chiboub:post-manifest',
+    configResolved(resolvedConfig) {
+      config = resolvedConfig
+      const { remarkPlugins } = createMdxOptions({ mode: config.mode })
+      processors = {
+        md: unified().use(remarkParse).use(remarkPlugins),
+        mdx: unified().use(remarkParse).use(remarkMdx).use(remarkPlugins),
+      }
+    },
+    configureServer(server) {
+      const contentDir = path.join(config.root, CONTENT_DIR)
+      // Edits are tracked through addWatchFile; new and deleted posts are not.
+      const reload = (file) => {
+        if (!file.startsWith(contentDir)) return
+        const mod = server.moduleGraph.getModuleById(RESOLVED_ID)
+        if (mod) server.moduleGraph.invalidateModule(mod)
+        server.ws.send({ type: 'full-reload' })
+      }
+      server.watcher.on('add', reload)
+      server.watcher.on('unlink', reload)
+    },
+    resolveId(id) {
+      if (id === VIRTUAL_ID) return RESOLVED_ID
+    },
+    async load(id) {
+      if (id !== RESOLVED_ID) return
+
+      const sources = await listPostSources(config.root)
+      for (const source of sources) this.addWatchFile(path.join(config.root, CONTENT_DIR, source))
+
+      const metas = await Promise.all(sources.map(readMeta)).catch((error) => {
+        if (error instanceof ImageError) this.error(error.message)
+        throw error
+      })
+      const posts = metas
+        .filter((meta) => meta && !meta.unpublished)
+        .sort((a, b) => Date.parse(b.date) - Date.parse(a.date))
+
+      let series
+      let translations
+      let redirects
+      try {
+        redirects = buildRedirects(posts)
+        // Validated with every part, shipped with the published ones and
+        // their numbers, which skip unpublished parts.
+        const published = new Set(posts.map((post) => post.slug))
+        series = Object.fromEntries(
+          Object.entries(buildSeries(metas.filter(Boolean)))
+            .map(([id, slugs]) => [id, {
+              parts: slugs.flatMap((slug, index) => (published.has(slug) ? [{ slug, part: index + 1 }] : [])),
+              partCount: slugs.length,
+            }])
+            .filter(([, { parts }]) => parts.length > 0),
+        )
+        translations = buildTranslations(posts)
+      } catch (error) {
+        if (!(error instanceof SeriesError || error instanceof SlugError || error instanceof TranslationError)) throw error
+        const files = metas
+          .filter((meta) => meta && error.slugs.includes(meta.slug))
+          .map((post) => path.join(CONTENT_DIR, post.source))
+        const message = error instanceof SlugError ? error.message : `Invalid ${error.message}`
+        this.error(`${message} (${files.join(', ')})`)
+      }
+
+      return [
+        `export const posts = ${JSON.stringify(posts)}`,
+        `export const links = ${JSON.stringify(buildPostLinks(posts))}`,
+        `export const series = ${JSON.stringify(series)}`,
+        `export const translations = ${JSON.stringify(translations)}`,
+        `export const redirects = ${JSON.stringify(redirects)}`,
+        '',
+      ].join('\n')
+    },
+  }
+}
@@ -0,0 +1,99 @@
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import { pathToFileURL } from 'node:url'
+import { build } from 'vite'
+import { renderRedirectPage } from './redirect-page.js'
+import { renderCname, renderRobots, renderSitemap } from './sitemap.js'
+
+const ROOT_PLACEHOLDER = '<div id="root"></div>'
+const HTML_TAG_PATTERN = /<html[^>]*>/
+// The template's defaults that a page's own head tags replace (src/lib/head.ts).
+const DEFAULT_HEAD_PATTERN = /\s*<title>[^<]*<\/title>|\s*<meta data-head [^>]*>/g
+
+async function writePage(outDir, pathname, html) {
+  const file = path.join(outDir, decodeURIComponent(pathname), 'index.html')
+  await mkdir(path.dirname(file), { recursive: true })
+  await writeFile(file, html)
+}
+
+/**
+ * Prerenders every route in src/App.tsx into its own `index.html` after the
+ * client build, so pages have their content before JavaScript runs; the
+ * client then hydrates them (src/main.tsx). Each page's `<Head>` tags replace
+ * the template's default title and meta tags, and `<html>` gets the page's
+ * language and text direction. Runs a second, SSR build of `entry` into a
+ * scratch directory and imports it from there.
+ *
+ * Old post URLs (frontmatter `aliases`) get static redirect pages.
+ * The page list becomes sitemap.xml, next to robots.txt and the GitHub
+ * Pages CNAME, all built from `SITE_URL` in src/lib/site.ts.
+ *
+ * `404.html` stays the empty shell: GitHub Pages serves it for any unknown
+ * URL and the client renders whatever route that is.
+ */
+export default function prerender({ entry = 'src/entry-server.tsx' } = {}) {
+  let config
+
+  return {
+    name: 'chiboub:prerender',
+    apply: (userConfig, { command }) => command === 'build' && !userConfig.build?.ssr,
+    configResolved(resolvedConfig) {
+      config = resolvedConfig
+    },
+    async closeBundle() {
+      const outDir = path.resolve(config.root, config.build.outDir)
+      // Inside node_modules so the server bundle resolves its dependencies.
+      const serverDir = path.join(config.root, 'node_modules', '.prerender')
+
+      await build({
+        configFile: config.configFile,
+        root: config.root,
+        mode: config.mode,
+        logLevel: 'warn',
+        build: {
+          ssr: entry,
+          outDir: serverDir,
+          emptyOutDir: true,
+          copyPublicDir: false,
+        },
+      })
+
+      try {
+        const entryName = `${path.basename(entry, path.extname(entry))}.js`
+        const { getPages, getRedirects, render } = await import(pathToFileURL(path.join(serverDir, entryName)).href)
+
+        const template = await readFile(path.join(outDir, 'index.html'), 'utf8')
+        if (!template.includes(ROOT_PLACEHOLDER)) {
+          this.error(`index.html has no empty ${ROOT_PLACEHOLDER} to prerender into`)
+        }
+        await writeFile(path.join(outDir, '404.html'), template)
+
+        const pages = getPages()
+        for (const { path: pathname } of pages) {
+          const page = await render(pathname)
+          let html = template
+            .replace(HTML_TAG_PATTERN, `<html lang="${page.lang}" dir="${page.dir}">`)
+            .replace(ROOT_PLACEHOLDER, `<div id="root">${page.html}</div>`)
+          if (page.head) {
+            html = html
+              .replace(DEFAULT_HEAD_PATTERN, '')
+              .replace('</head>', `  ${page.head}\n  </head>`)
+          }
+          await writePage(outDir, pathname, html)
+        }
+
+        const pagePaths = new Set(pages.map((page) => page.path))
+        for (const { from, to } of getRedirects()) {
+          if (pagePaths.has(from)) this.error(`Alias ${from} for ${to} would replace an existing page`)
+          await writePage(outDir, from, renderRedirectPage(to))
+        }
+        await writeFile(path.join(outDir, 'sitemap.xml'), renderSitemap(pages))
+        await writeFile(path.join(outDir, 'robots.txt'), renderRobots())
+        await writeFile(path.join(outDir, 'CNAME'), renderCname())
+        config.logger.info(`prerendered ${pages.length} pages`)
+      } finally {
+        await rm(serverDir, { recursive: true, force: true })
+      }
+    },
+  }
+}
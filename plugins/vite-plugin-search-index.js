@@ -0,0 +1,53 @@
+import { buildSearchIndex } from '../src/lib/search.ts'
+import { loadPosts } from './posts.js'
+
+const VIRTUAL_ID = 'virtual:search-index'
+const RESOLVED_ID = `\0${VIRTUAL_ID}`
+
+const ENTITIES = { amp: '&', lt: '<', gt: '>', quot: '"', '#x27': "'", '#39': "'", nbsp: ' ' }
+
+// Block-level tags become spaces so words from adjacent blocks don't fuse;
+// inline tags vanish so `<code>x</code>.` stays `x.`.
+function htmlToText(html) {
+  return html
+    .replace(/<\/?(?:p|h[1-6]|li|ul|ol|pre|blockquote|table|tr|td|th|div|br|hr)\b[^>]*>/g, ' ')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(amp|lt|gt|quot|#x27|#39|nbsp);/g, (_, entity) => ENTITIES[entity])
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * Serves `virtual:search-index`: the inverted index from src/lib/search.ts over
+ * every published post's title, description, tags and rendered body text.
+ * The app imports it dynamically, so it lands in its own chunk.
+ */
+export default function searchIndex() {
+  let config
+
+  return {
+    name: 'chiboub:search-index',
+    configResolved(resolvedConfig) {
+      config = resolvedConfig
+    },
+    resolveId(id) {
+      if (id === VIRTUAL_ID) return RESOLVED_ID
+    },
+    async load(id) {
+      if (id !== RESOLVED_ID) return
+
+      const posts = await loadPosts({ root: config.root, mode: config.mode })
+      for (const post of posts) this.addWatchFile(post.filePath)
+
+      const index = buildSearchIndex(posts.map((post) => ({
+        slug: post.slug,
+        title: post.title,
+        description: post.description,
+        tags: post.tags,
+        date: post.date,
+        text: htmlToText(post.html),
+      })))
+      return `export default JSON.parse(${JSON.stringify(JSON.stringify(index))})`
+    },
+  }
+}
@@ -1,9 +1,30 @@
-import { Routes, Route } from 'react-router-dom';
+import { useRoutes } from 'react-router-dom';
+import type { RouteObject } from 'react-router-dom';
 import StarField from './components/starfield';
+import ClientOnly from './components/ClientOnly';
 import Layout from './components/Layout';
 import Home from './pages/Home';
 import Blog from './pages/Blog';
 import BlogPost from './pages/BlogPost';
+import BlogArchive from './pages/BlogArchive';
+import BlogTags from './pages/BlogTags';
+import BlogTag from './pages/BlogTag';
+import BlogSeries from './pages/BlogSeries';
+import NotFound from './pages/NotFound';
+import {
+  blogPagePath,
+  getAllSeries,
+  getAllTags,
+  getPageCount,
+  getPostsByLocale,
+  loadPostBody,
+  postPath,
+  seriesPath,
+  tagPath,
+} from './lib/posts';
+import { LOCALES, localePrefix } from './lib/i18n';
+import type { Locale } from './lib/i18n';
+import type { RouteHandle } from './lib/routes';
 
 const STATIC_STARFIELD_CONFIG = {
   stars: {
@@ -33,19 +54,75 @@ const STATIC_STARFIELD_CONFIG = {
   },
 } as const;
 
+// Every language gets its own listing and post URLs (`/blog`, `/fr/blog`, ...);
+// tags, series and the archive are shared.
+function localeRoutes(locale: Locale): RouteObject[] {
+  const prefix = localePrefix(locale);
+  return [
+    { path: `${prefix}/blog`, element: <Blog /> },
+    {
+      path: `${prefix}/blog/page/:page`,
+      element: <Blog />,
+      handle: {
+        prerender: () => Array.from(
+          { length: getPageCount(locale) - 1 },
+          (_, index) => ({ path: blogPagePath(index + 2, locale) }),
+        ),
+      } satisfies RouteHandle,
+    },
+    {
+      path: `${prefix}/blog/:slug`,
+      element: <BlogPost />,
+      handle: {
+        prerender: () => getPostsByLocale(locale).map((post) => ({
+          path: postPath(post.slug, locale),
+          lastModified: post.updated ?? post.date,
+        })),
+        // Post bodies are lazy chunks; render and hydrate with the body in place.
+        preload: ({ slug }) => loadPostBody(slug ?? ''),
+      } satisfies RouteHandle,
+    },
+  ];
+}
+
+// Also the list of pages prerendered at build time (src/entry-server.tsx) and
+// listed in sitemap.xml: static paths as-is, dynamic ones through `handle.prerender`.
+export const routes: RouteObject[] = [
+  { path: '/', element: <Home /> },
+  ...LOCALES.flatMap(localeRoutes),
+  { path: '/blog/archive', element: <BlogArchive /> },
+  { path: '/blog/tags', element: <BlogTags /> },
+  {
+    path: '/blog/tags/:tag',
+    element: <BlogTag />,
+    handle: {
+      prerender: () => getAllTags().map((summary) => ({ path: tagPath(summary.tag) })),
+    } satisfies RouteHandle,
+  },
+  {
+    path: '/blog/series/:id',
+    element: <BlogSeries />,
+    handle: {
+      prerender: () => getAllSeries().map((series) => ({ path: seriesPath(series.id) })),
+    } satisfies RouteHandle,
+  },
+  // Unknown URLs, including old post URLs that redirect (frontmatter `aliases`).
+  { path: '*', element: <NotFound /> },
+];
+
 function App() {
+  const page = useRoutes(routes);
+
   return (
     <div className="relative min-h-screen overflow-x-clip bg-site-bg">
       <div className="fixed inset-0 z-0 overflow-hidden">
-        <StarField config={STATIC_STARFIELD_CONFIG} />
+        <ClientOnly>
+          <StarField config={STATIC_STARFIELD_CONFIG} />
+        </ClientOnly>
       </div>
 
       <Layout>
-        <Routes>
-          <Route path="/" element={<Home />} />
-          <Route path="/blog" element={<Blog />} />
-          <Route path="/blog/:slug" element={<BlogPost />} />
-        </Routes>
+        {page}
       </Layout>
     </div>
   );
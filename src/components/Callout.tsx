@@ -0,0 +1,63 @@
+import type { FC, ReactNode } from 'react';
+import type { CalloutType } from '../lib/callouts';
+import { useI18n } from '../lib/use-i18n';
+import { DangerIcon, NoteIcon, TipIcon, WarningIcon } from './Icons';
+
+interface CalloutProps {
+  type: CalloutType;
+  title?: string;
+  /** Renders as a `<details>` disclosure, closed unless `open` is set. */
+  collapsible?: boolean;
+  open?: boolean;
+  children?: ReactNode;
+}
+
+const CALLOUT_STYLES: Record<CalloutType, { icon: FC; box: string; label: string }> = {
+  note: { icon: NoteIcon, box: 'border-site-accent-dim bg-site-accent/5', label: 'text-site-accent' },
+  tip: { icon: TipIcon, box: 'border-green-400/70 bg-green-400/5', label: 'text-green-400' },
+  warning: { icon: WarningIcon, box: 'border-amber-400/70 bg-amber-400/5', label: 'text-amber-400' },
+  danger: { icon: DangerIcon, box: 'border-red-500/70 bg-red-500/5', label: 'text-red-500' },
+};
+
+const bodyClass = 'mt-2 text-sm leading-7 text-site-text-dim sm:text-base sm:leading-8 [&>*:last-child]:mb-0';
+
+/**
+ * A note/tip/warning/danger box in a post body, from the directives and
+ * GitHub alerts that plugins/remark-callouts.js converts.
+ */
+export default function Callout({ type, title, collapsible = false, open = false, children }: CalloutProps) {
+  const { messages } = useI18n();
+  const { icon: Icon, box, label } = CALLOUT_STYLES[type];
+  const boxClass = `my-6 rounded-e-sm border-s-[3px] px-4 py-3 sm:px-5 ${box}`;
+
+  const header = (
+    <>
+      <span aria-hidden="true" className={`inline-flex translate-y-0.5 [&_svg]:size-4 ${label}`}>
+        <Icon />
+      </span>
+      <span className={`ms-2 text-xs font-semibold uppercase tracking-[0.12em] ${label}`}>
+        [{messages.post.callouts[type]}]
+      </span>
+      {title && <span className="ms-2 font-semibold text-white">{title}</span>}
+    </>
+  );
+
+  if (collapsible) {
+    return (
+      <details open={open} className={`group ${boxClass}`}>
+        <summary className="cursor-pointer list-none text-sm sm:text-base [&::-webkit-details-marker]:hidden">
+          <span aria-hidden="true" className="me-2 inline-block text-site-accent-dim transition-transform duration-100 group-open:rotate-90 rtl:group-open:-rotate-90">{'>'}</span>
+          {header}
+        </summary>
+        <div className={bodyClass}>{children}</div>
+      </details>
+    );
+  }
+
+  return (
+    <div role="note" aria-label={title || messages.post.callouts[type]} className={boxClass}>
+      <p className="text-sm sm:text-base">{header}</p>
+      <div className={bodyClass}>{children}</div>
+    </div>
+  );
+}
@@ -0,0 +1,11 @@
+import type { ReactNode } from 'react';
+import { useHydrated } from '../lib/use-hydrated';
+
+interface ClientOnlyProps {
+  children: ReactNode;
+}
+
+/** Renders `children` in the browser only, once the prerendered page has hydrated. */
+export default function ClientOnly({ children }: ClientOnlyProps) {
+  return useHydrated() ? children : null;
+}
@@ -0,0 +1,96 @@
+import { Children, useEffect, useRef, useState } from 'react';
+import type { MouseEvent, ReactNode } from 'react';
+import { useHydrated } from '../lib/use-hydrated';
+import { useMediaQuery } from '../lib/use-media-query';
+
+interface FootnoteRefProps {
+  /** Id of the reference, which the footnote's back-reference links to. */
+  id: string;
+  /** `#id` of the footnote in the list at the end of the post. */
+  href: string;
+  label: string;
+  /** The footnote as inline content; empty when it cannot be shown inline. */
+  children?: ReactNode;
+}
+
+// Matches the `xl:` breakpoint the sidenote classes below switch on.
+const WIDE_QUERY = '(min-width: 80rem)';
+
+/**
+ * A footnote reference from plugins/rehype-sidenotes.js. On wide screens the
+ * note sits beside it in the margin; on narrow ones tapping the reference
+ * opens it below the line instead of jumping to the footnote list. The
+ * margin copy is `inert`, so keyboard and screen-reader users follow the
+ * link to the list and its back-reference like before.
+ */
+export default function FootnoteRef({ id, href, label, children }: FootnoteRefProps) {
+  const hydrated = useHydrated();
+  const isWide = useMediaQuery(WIDE_QUERY);
+  const [open, setOpen] = useState(false);
+  const wrapperRef = useRef<HTMLSpanElement>(null);
+  const linkRef = useRef<HTMLAnchorElement>(null);
+  const hasNote = Children.count(children) > 0;
+  const previewId = `${id}-preview`;
+  // Until hydration the reference is a plain link to the footnote list.
+  const canPreview = hydrated && hasNote && !isWide;
+
+  useEffect(() => {
+    if (!open) return;
+    const closeOnEscape = (event: KeyboardEvent) => {
+      if (event.key !== 'Escape') return;
+      setOpen(false);
+      linkRef.current?.focus();
+    };
+    const closeOnOutsideClick = (event: PointerEvent) => {
+      if (!wrapperRef.current?.contains(event.target as Node)) setOpen(false);
+    };
+    document.addEventListener('keydown', closeOnEscape);
+    document.addEventListener('pointerdown', closeOnOutsideClick);
+    return () => {
+      document.removeEventListener('keydown', closeOnEscape);
+      document.removeEventListener('pointerdown', closeOnOutsideClick);
+    };
+  }, [open]);
+
+  const togglePreview = (event: MouseEvent<HTMLAnchorElement>) => {
+    if (!canPreview) return;
+    event.preventDefault();
+    setOpen((current) => !current);
+  };
+
+  return (
+    <span ref={wrapperRef}>
+      <sup>
+        <a
+          ref={linkRef}
+          id={id}
+          href={href}
+          data-footnote-ref=""
+          aria-describedby="footnote-label"
+          aria-expanded={canPreview ? open : undefined}
+          aria-controls={canPreview && open ? previewId : undefined}
+          onClick={togglePreview}
+          className="scroll-mt-20 px-0.5 text-[0.8em] text-site-accent transition-colors duration-100 hover:text-white hover:no-underline"
+        >
+          [{label}]
+        </a>
+      </sup>
+      {hasNote && (
+        <span
+          inert
+          className="hidden text-xs leading-5 text-site-text-dim xl:float-end xl:clear-end xl:-me-64 xl:mb-3 xl:block xl:w-56 xl:border-s xl:border-site-surface-border xl:ps-3"
+        >
+          <span className="text-site-accent">[{label}]</span> {children}
+        </span>
+      )}
+      {open && (
+        <span
+          id={previewId}
+          className="absolute inset-x-0 z-10 mx-4 mt-2 block rounded-sm border border-site-surface-border bg-site-bg px-4 py-3 text-sm leading-6 text-site-text-dim shadow-lg shadow-black/60 xl:hidden"
+        >
+          <span className="text-site-accent">[{label}]</span> {children}
+        </span>
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,20 @@
+import { useContext, useEffect } from 'react';
+import { HeadContext, applyHead } from '../lib/head';
+import type { HeadData } from '../lib/head';
+import { useI18n } from '../lib/use-i18n';
+
+/** Declares the page's `<head>` tags; renders nothing in the body. */
+export default function Head(props: HeadData) {
+  const { locale } = useI18n();
+  const head = { locale, ...props };
+  const collect = useContext(HeadContext);
+  // Prerendering has no effects, so hand the tags over while rendering.
+  collect?.(head);
+
+  const key = JSON.stringify(head);
+  useEffect(() => {
+    applyHead(JSON.parse(key) as HeadData);
+  }, [key]);
+
+  return null;
+}
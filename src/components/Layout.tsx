@@ -1,6 +1,9 @@
 import { Link, useLocation } from 'react-router-dom';
 import type { ReactNode } from 'react';
 import { GitHubIcon, LinkedInIcon } from './Icons';
+import { localePrefix } from '../lib/i18n';
+import { blogPagePath } from '../lib/posts';
+import { useI18n } from '../lib/use-i18n';
 
 interface LayoutProps {
   children: ReactNode;
@@ -8,6 +11,7 @@ interface LayoutProps {
 
 export default function Layout({ children }: LayoutProps) {
   const location = useLocation();
+  const { locale, dir, messages } = useI18n();
   const navLinkClass = (isActive: boolean) =>
     [
       'text-[0.8rem] transition-colors duration-100 hover:no-underline sm:text-sm',
@@ -17,7 +21,7 @@ export default function Layout({ children }: LayoutProps) {
     ].join(' ');
 
   return (
-    <div className="relative z-10 flex min-h-screen flex-col">
+    <div lang={locale} dir={dir} className="relative z-10 flex min-h-screen flex-col">
       <nav className="sticky top-0 z-20 border-b border-site-surface-border bg-black/80 backdrop-blur-sm">
         <div className="mx-auto flex w-full max-w-6xl items-center justify-between gap-x-4 px-3 py-3 sm:px-6 lg:px-8">
           <Link
@@ -31,13 +35,13 @@ export default function Layout({ children }: LayoutProps) {
               to="/"
               className={navLinkClass(location.pathname === '/')}
             >
-              home
+              {messages.nav.home}
             </Link>
             <Link
-              to="/blog"
-              className={navLinkClass(location.pathname.startsWith('/blog'))}
+              to={blogPagePath(1, locale)}
+              className={navLinkClass(location.pathname.startsWith(`${localePrefix(locale)}/blog`))}
             >
-              blog
+              {messages.nav.blog}
             </Link>
           </div>
         </div>
@@ -70,7 +74,7 @@ export default function Layout({ children }: LayoutProps) {
           </a>
         </div>
         <p className="text-xs text-site-text-dim">
-          Built with React, Tailwind, and a pixelated WebGL night sky.
+          {messages.nav.footer}
         </p>
         </div>
       </footer>
@@ -1,31 +1,138 @@
-import type { ComponentPropsWithoutRef } from 'react';
+import { useRef, useState } from 'react';
+import type { ComponentPropsWithoutRef, ReactNode } from 'react';
 import type { MDXComponents } from 'mdx/types';
+import type { ResponsiveImageData } from '../lib/images';
+import { useI18n } from '../lib/use-i18n';
+import Callout from './Callout';
+import FootnoteRef from './FootnoteRef';
+import ResponsiveImage from './ResponsiveImage';
 
-const headingBaseClass = 'mt-9 mb-4 font-semibold leading-[1.5] text-site-accent first:mt-0';
+const headingBaseClass = 'group mt-9 mb-4 scroll-mt-20 font-semibold leading-[1.5] text-site-accent first:mt-0';
+
+type HeadingTag = 'h1' | 'h2' | 'h3' | 'h4' | 'h5' | 'h6';
 
 function joinClasses(...classes: Array<string | undefined>) {
   return classes.filter(Boolean).join(' ');
 }
 
+/** `#` link to the section that also copies the section URL to the clipboard. */
+function HeadingAnchor({ id }: { id: string }) {
+  const [copied, setCopied] = useState(false);
+  const { messages } = useI18n();
+
+  const copyLink = () => {
+    const url = `${window.location.origin}${window.location.pathname}#${id}`;
+    navigator.clipboard?.writeText(url).then(
+      () => {
+        setCopied(true);
+        window.setTimeout(() => setCopied(false), 1500);
+      },
+      () => undefined,
+    );
+  };
+
+  return (
+    <a
+      href={`#${id}`}
+      onClick={copyLink}
+      aria-label={messages.post.copyLink}
+      title={copied ? messages.post.linkCopied : messages.post.copyLink}
+      className="ms-2 inline-block font-normal text-site-accent-dim opacity-0 transition-opacity duration-100 group-hover:opacity-100 hover:text-site-accent hover:no-underline focus-visible:opacity-100 [@media(hover:none)]:opacity-60"
+    >
+      {copied ? '✓' : '#'}
+    </a>
+  );
+}
+
+type CodeBlockProps = ComponentPropsWithoutRef<'pre'> & {
+  /** Fence `title="..."`, set by plugins/shiki-transformers.js. */
+  'data-title'?: string;
+};
+
+/** The code as it should be pasted: lines removed in a diff are left out. */
+function codeText(pre: HTMLPreElement) {
+  const lines = Array.from(pre.querySelectorAll('.line'));
+  if (!lines.length) return pre.textContent ?? '';
+  return lines
+    .filter((line) => !line.classList.contains('remove'))
+    .map((line) => line.textContent)
+    .join('\n');
+}
+
+/**
+ * A code fence in a post body: an optional file name above it and a copy
+ * button. Line highlights, diffs, focus and line numbers come from the Shiki
+ * transformers in plugins/shiki-transformers.js, styled in src/index.css.
+ * Code reads left to right even inside an Arabic post.
+ */
+function CodeBlock({ className, children, 'data-title': title, ...props }: CodeBlockProps) {
+  const { messages } = useI18n();
+  const preRef = useRef<HTMLPreElement>(null);
+  const [copied, setCopied] = useState(false);
+  const isShiki = className?.includes('shiki');
+
+  const copyCode = () => {
+    if (!preRef.current) return;
+    navigator.clipboard?.writeText(codeText(preRef.current)).then(
+      () => {
+        setCopied(true);
+        window.setTimeout(() => setCopied(false), 1500);
+      },
+      () => undefined,
+    );
+  };
+
+  return (
+    <figure dir="ltr" className="group/code my-6 text-left">
+      {title && (
+        <figcaption className="rounded-t-sm border border-b-0 border-site-surface-border bg-black/55 px-4 py-1.5 text-xs text-site-text-dim sm:px-6">
+          {title}
+        </figcaption>
+      )}
+      <div className="relative">
+        <pre
+          ref={preRef}
+          className={joinClasses(
+            'overflow-x-auto border border-site-surface-border py-4 text-[0.78rem] leading-6 sm:py-5 sm:text-[0.85rem] sm:leading-7 [&_.line]:block [&_code]:block [&_code]:whitespace-pre [&_code]:bg-transparent [&_code]:p-0 [&_code]:text-inherit [&_code]:border-0',
+            title ? 'rounded-b-sm' : 'rounded-sm',
+            isShiki ? 'bg-transparent [&_.line]:px-4 sm:[&_.line]:px-6' : 'bg-black/55 px-4 text-site-text sm:px-6',
+            className,
+          )}
+          {...props}
+        >
+          {children}
+        </pre>
+        <button
+          type="button"
+          onClick={copyCode}
+          className="absolute top-2 right-2 rounded-sm border border-site-surface-border bg-black/70 px-2 py-0.5 text-xs text-site-accent-dim opacity-0 transition-opacity duration-100 group-hover/code:opacity-100 hover:text-site-accent focus-visible:opacity-100 [@media(hover:none)]:opacity-60"
+        >
+          <span aria-live="polite">{copied ? messages.post.codeCopied : messages.post.copyCode}</span>
+        </button>
+      </div>
+    </figure>
+  );
+}
+
+// Ids come from plugins/rehype-heading-ids.js at build time.
+function createHeading(Tag: HeadingTag, sizeClass: string) {
+  return function Heading({ className, id, children, ...props }: ComponentPropsWithoutRef<HeadingTag>) {
+    return (
+      <Tag id={id} className={joinClasses(headingBaseClass, sizeClass, className)} {...props}>
+        {children}
+        {id && <HeadingAnchor id={id} />}
+      </Tag>
+    );
+  };
+}
+
 export const mdxComponents: MDXComponents = {
-  h1: ({ className, ...props }) => (
-    <h1 className={joinClasses(headingBaseClass, 'text-[1.45rem] sm:text-[1.55rem]', className)} {...props} />
-  ),
-  h2: ({ className, ...props }) => (
-    <h2 className={joinClasses(headingBaseClass, 'text-[1.18rem] sm:text-[1.22rem]', className)} {...props} />
-  ),
-  h3: ({ className, ...props }) => (
-    <h3 className={joinClasses(headingBaseClass, 'text-base', className)} {...props} />
-  ),
-  h4: ({ className, ...props }) => (
-    <h4 className={joinClasses(headingBaseClass, 'text-[0.95rem] uppercase tracking-[0.08em] text-site-accent-dim', className)} {...props} />
-  ),
-  h5: ({ className, ...props }) => (
-    <h5 className={joinClasses(headingBaseClass, 'text-sm uppercase tracking-[0.08em] text-site-accent-dim', className)} {...props} />
-  ),
-  h6: ({ className, ...props }) => (
-    <h6 className={joinClasses(headingBaseClass, 'text-xs uppercase tracking-[0.12em] text-site-accent-dim', className)} {...props} />
-  ),
+  h1: createHeading('h1', 'text-[1.45rem] sm:text-[1.55rem]'),
+  h2: createHeading('h2', 'text-[1.18rem] sm:text-[1.22rem]'),
+  h3: createHeading('h3', 'text-base'),
+  h4: createHeading('h4', 'text-[0.95rem] uppercase tracking-[0.08em] text-site-accent-dim'),
+  h5: createHeading('h5', 'text-sm uppercase tracking-[0.08em] text-site-accent-dim'),
+  h6: createHeading('h6', 'text-xs uppercase tracking-[0.12em] text-site-accent-dim'),
   p: ({ className, ...props }) => (
     <p className={joinClasses('mb-5 text-sm leading-7 last:mb-0 sm:text-base sm:leading-8', className)} {...props} />
   ),
@@ -47,7 +154,7 @@ export const mdxComponents: MDXComponents = {
   ul: ({ className, ...props }) => (
     <ul
       className={joinClasses(
-        'mb-5 space-y-2 pl-5 list-disc text-sm leading-7 marker:text-site-accent-dim sm:text-base sm:leading-8 [&>li>p]:inline',
+        'mb-5 space-y-2 ps-5 list-disc text-sm leading-7 marker:text-site-accent-dim sm:text-base sm:leading-8 [&>li>p]:inline',
         className,
       )}
       {...props}
@@ -56,33 +163,39 @@ export const mdxComponents: MDXComponents = {
   ol: ({ className, ...props }) => (
     <ol
       className={joinClasses(
-        'mb-5 space-y-2 pl-5 list-decimal text-sm leading-7 marker:text-site-accent-dim sm:text-base sm:leading-8 [&>li>p]:inline',
+        'mb-5 space-y-2 ps-5 list-decimal text-sm leading-7 marker:text-site-accent-dim sm:text-base sm:leading-8 [&>li>p]:inline',
         className,
       )}
       {...props}
     />
   ),
   li: ({ className, ...props }) => (
-    <li className={joinClasses('[&_input]:mr-3 [&_input]:translate-y-px', className)} {...props} />
+    <li className={joinClasses('[&_input]:me-3 [&_input]:translate-y-px', className)} {...props} />
   ),
   blockquote: ({ className, ...props }) => (
     <blockquote
       className={joinClasses(
-        'my-6 rounded-r-sm border-l-[3px] border-site-accent-dim bg-site-accent/5 px-4 py-3 text-sm leading-7 text-site-text-dim sm:px-5 sm:text-base sm:leading-8 [&>p]:mb-2 [&>p:last-child]:mb-0',
+        'my-6 rounded-e-sm border-s-[3px] border-site-accent-dim bg-site-accent/5 px-4 py-3 text-sm leading-7 text-site-text-dim sm:px-5 sm:text-base sm:leading-8 [&>p]:mb-2 [&>p:last-child]:mb-0',
         className,
       )}
       {...props}
     />
   ),
-  pre: ({ className, ...props }) => (
-    <pre
+  // Note/tip/warning/danger boxes from plugins/remark-callouts.js.
+  Callout,
+  pre: CodeBlock,
+  // Inline SVG from plugins/rehype-diagrams.js. Graphviz lays text out in
+  // Courier, so dot diagrams can take the site's monospace font instead.
+  Diagram: ({ type, children }: { type: 'mermaid' | 'dot'; children?: ReactNode }) => (
+    <figure
+      dir="ltr"
       className={joinClasses(
-        'my-6 overflow-x-auto rounded-sm border border-site-surface-border px-4 py-4 text-[0.78rem] leading-6 sm:px-6 sm:py-5 sm:text-[0.85rem] sm:leading-7 [&_.line]:block [&_code]:block [&_code]:whitespace-pre [&_code]:bg-transparent [&_code]:p-0 [&_code]:text-inherit [&_code]:border-0',
-        className?.includes('shiki') ? 'bg-transparent' : 'bg-black/55 text-site-text',
-        className,
+        'my-6 overflow-x-auto rounded-sm border border-site-surface-border bg-black/30 p-4 [&_svg]:mx-auto [&_svg]:h-auto [&_svg]:max-w-none',
+        type === 'dot' ? '[&_text]:[font-family:inherit]' : undefined,
       )}
-      {...props}
-    />
+    >
+      {children}
+    </figure>
   ),
   code: ({ children, className, ...rest }) => {
     if (className) {
@@ -90,6 +203,7 @@ export const mdxComponents: MDXComponents = {
     }
     return (
       <code
+        dir="ltr"
         className="rounded-[3px] border border-site-accent/15 bg-site-accent/8 px-1.5 py-[0.15rem] text-[0.9em] text-site-accent"
         {...rest}
       >
@@ -99,7 +213,7 @@ export const mdxComponents: MDXComponents = {
   },
   table: ({ className, ...props }) => (
     <div className="my-6 overflow-x-auto">
-      <table className={joinClasses('min-w-full border-collapse text-left text-sm sm:text-base', className)} {...props} />
+      <table className={joinClasses('min-w-full border-collapse text-start text-sm sm:text-base', className)} {...props} />
     </div>
   ),
   thead: ({ className, ...props }) => (
@@ -115,14 +229,14 @@ export const mdxComponents: MDXComponents = {
   td: ({ className, ...props }) => (
     <td className={joinClasses('px-3 py-2 align-top text-site-text-dim sm:px-4', className)} {...props} />
   ),
-  img: ({ className, alt, loading, ...props }: ComponentPropsWithoutRef<'img'>) => (
-    <img
-      className={joinClasses('my-6 h-auto w-full rounded-sm border border-site-surface-border object-cover', className)}
-      alt={alt ?? ''}
-      loading={loading ?? 'lazy'}
-      {...props}
-    />
-  ),
+  // `image` is set on local images by plugins/remark-images.js; remote ones stay plain.
+  img: ({ className, alt, loading, image, ...props }: ComponentPropsWithoutRef<'img'> & { image?: ResponsiveImageData }) => {
+    const imageClass = joinClasses('my-6 h-auto w-full rounded-sm border border-site-surface-border object-cover', className);
+    if (image) {
+      return <ResponsiveImage image={image} className={imageClass} alt={alt ?? ''} loading={loading} {...props} />;
+    }
+    return <img className={imageClass} alt={alt ?? ''} loading={loading ?? 'lazy'} {...props} />;
+  },
   input: ({ className, type, ...props }: ComponentPropsWithoutRef<'input'>) => {
     if (type === 'checkbox') {
       return (
@@ -149,6 +263,20 @@ export const mdxComponents: MDXComponents = {
       {...props}
     />
   ),
+  // Footnotes: references come from plugins/rehype-sidenotes.js, the list
+  // at the end of the post straight from remark-gfm.
+  FootnoteRef,
+  section: ({ className, ...props }: ComponentPropsWithoutRef<'section'> & { 'data-footnotes'?: boolean }) => (
+    <section
+      className={joinClasses(
+        props['data-footnotes']
+          ? 'mt-12 border-t border-dashed border-site-surface-border pt-6 text-site-text-dim [&_h2]:mt-0 [&_h2]:mb-3 [&_h2]:text-xs [&_h2]:uppercase [&_h2]:tracking-[0.12em] [&_h2]:text-site-accent-dim [&_li]:scroll-mt-20 [&_li]:rounded-sm [&_li:target]:bg-site-accent/5 [&_ol]:text-xs [&_ol]:sm:text-sm [&_p]:mb-2 [&_p]:text-xs [&_p]:sm:text-sm'
+          : undefined,
+        className,
+      )}
+      {...props}
+    />
+  ),
   br: () => <br />,
   hr: () => <hr className="my-10 border-0 border-t border-dashed border-site-surface-border" />,
   strong: ({ className, ...props }) => <strong className={joinClasses('font-bold text-white', className)} {...props} />,
@@ -0,0 +1,70 @@
+import { Link } from 'react-router-dom';
+import { blogPagePath } from '../lib/posts';
+import { useI18n } from '../lib/use-i18n';
+
+interface PaginationProps {
+  page: number;
+  pageCount: number;
+}
+
+const controlClass =
+  'inline-block min-w-8 rounded-sm border px-2 py-1 text-center transition-colors duration-100 hover:no-underline';
+const idleClass = `${controlClass} border-site-surface-border text-site-accent-dim hover:border-site-accent hover:text-site-accent`;
+const disabledClass = `${controlClass} border-transparent text-site-text-dim/50`;
+
+/** First, last and the current page with its neighbours; gaps collapse to `…`. */
+function visiblePages(page: number, pageCount: number): Array<number | 'gap'> {
+  const pages: Array<number | 'gap'> = [];
+  for (let candidate = 1; candidate <= pageCount; candidate++) {
+    const isVisible = candidate === 1 || candidate === pageCount || Math.abs(candidate - page) <= 1;
+    if (isVisible) {
+      pages.push(candidate);
+    } else if (pages[pages.length - 1] !== 'gap') {
+      pages.push('gap');
+    }
+  }
+  return pages;
+}
+
+export default function Pagination({ page, pageCount }: PaginationProps) {
+  const { locale, messages } = useI18n();
+  if (pageCount <= 1) return null;
+
+  return (
+    <nav aria-label={messages.pagination.label} className="mt-8 flex flex-wrap items-center justify-center gap-2 text-sm">
+      {page > 1 ? (
+        <Link to={blogPagePath(page - 1, locale)} rel="prev" className={idleClass}>
+          {messages.pagination.newer}
+        </Link>
+      ) : (
+        <span aria-hidden="true" className={disabledClass}>{messages.pagination.newer}</span>
+      )}
+
+      <ol className="flex flex-wrap items-center gap-2">
+        {visiblePages(page, pageCount).map((candidate, i) => (
+          <li key={candidate === 'gap' ? `gap-${i}` : candidate}>
+            {candidate === 'gap' ? (
+              <span className="px-1 text-site-text-dim">…</span>
+            ) : candidate === page ? (
+              <span aria-current="page" className={`${controlClass} border-site-accent text-site-accent`}>
+                {candidate}
+              </span>
+            ) : (
+              <Link to={blogPagePath(candidate, locale)} aria-label={messages.pagination.page(candidate)} className={idleClass}>
+                {candidate}
+              </Link>
+            )}
+          </li>
+        ))}
+      </ol>
+
+      {page < pageCount ? (
+        <Link to={blogPagePath(page + 1, locale)} rel="next" className={idleClass}>
+          {messages.pagination.older}
+        </Link>
+      ) : (
+        <span aria-hidden="true" className={disabledClass}>{messages.pagination.older}</span>
+      )}
+    </nav>
+  );
+}
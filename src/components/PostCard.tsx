@@ -0,0 +1,41 @@
+import type { PostMeta } from '../lib/posts';
+import PostDateline from './PostDateline';
+import PostLink from './PostLink';
+import ResponsiveImage from './ResponsiveImage';
+import TagList from './TagList';
+
+interface PostCardProps {
+  post: PostMeta;
+}
+
+/**
+ * Blog listing card. The title link is stretched over the whole card so the
+ * tag links inside it stay separate anchors instead of nesting in one.
+ */
+export default function PostCard({ post }: PostCardProps) {
+  return (
+    <article className="group relative rounded-sm border border-site-surface-border bg-site-surface p-4 text-site-text transition-colors duration-100 hover:border-site-accent sm:p-5 lg:p-6">
+      {post.cover && (
+        <ResponsiveImage
+          image={post.cover}
+          alt=""
+          sizes="(min-width: 64rem) 60rem, 100vw"
+          className="mb-4 aspect-[2/1] h-auto w-full rounded-sm border border-site-surface-border object-cover"
+        />
+      )}
+      <PostDateline post={post} />
+      <h2 className="my-2 text-[1.02rem] font-semibold leading-6 sm:text-lg">
+        <PostLink
+          slug={post.slug}
+          className="text-site-text transition-colors duration-100 after:absolute after:inset-0 group-hover:text-site-accent hover:no-underline"
+        >
+          {post.title}
+        </PostLink>
+      </h2>
+      <p className="mb-2 text-sm leading-7 text-site-text-dim sm:text-base">
+        {post.description}
+      </p>
+      <TagList tags={post.tags} />
+    </article>
+  );
+}
@@ -0,0 +1,24 @@
+import { formatPostDate } from '../lib/posts';
+import type { PostMeta } from '../lib/posts';
+import { useI18n } from '../lib/use-i18n';
+import PostStatusBadge from './PostStatusBadge';
+
+interface PostDatelineProps {
+  post: PostMeta;
+  className?: string;
+}
+
+/** Date, length and (in dev) publishing status, shown above a post's title. */
+export default function PostDateline({ post, className = '' }: PostDatelineProps) {
+  const { messages } = useI18n();
+  return (
+    <p className={`flex flex-wrap items-center gap-x-2 text-xs text-site-text-dim ${className}`}>
+      <time dateTime={post.date}>{formatPostDate(post.date)}</time>
+      <span aria-hidden="true">·</span>
+      <span>{messages.post.words(post.wordCount)}</span>
+      <span aria-hidden="true">·</span>
+      <span>{messages.post.minutes(post.readingMinutes)}</span>
+      <PostStatusBadge status={post.status} />
+    </p>
+  );
+}
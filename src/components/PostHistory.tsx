@@ -0,0 +1,68 @@
+import { formatPostDate } from '../lib/posts';
+import { diffLineKind } from '../lib/revisions';
+import type { DiffLineKind, PostRevision } from '../lib/revisions';
+import { useI18n } from '../lib/use-i18n';
+
+const diffLineClasses: Record<DiffLineKind, string> = {
+  added: 'bg-green-500/10 text-green-400',
+  removed: 'bg-red-500/10 text-red-400',
+  hunk: 'text-site-accent-dim',
+  context: 'text-site-text-dim',
+};
+
+function RevisionDiff({ diff }: { diff: string }) {
+  return (
+    <pre dir="ltr" className="mt-2 overflow-x-auto rounded-sm border border-site-surface-border bg-black/60 py-2 text-xs leading-5">
+      <code>
+        {diff.split('\n').map((line, index) => (
+          <span key={index} className={`block px-3 ${diffLineClasses[diffLineKind(line)]}`}>
+            {line || ' '}
+          </span>
+        ))}
+      </code>
+    </pre>
+  );
+}
+
+interface PostHistoryProps {
+  history: PostRevision[];
+}
+
+/** Every commit that touched the post, newest first, each with its diff behind a disclosure. */
+export default function PostHistory({ history }: PostHistoryProps) {
+  const { messages } = useI18n();
+  if (history.length === 0) return null;
+
+  return (
+    <details className="group mt-10 rounded-sm border border-site-surface-border bg-black/30 px-4 py-3 text-sm">
+      <summary className="cursor-pointer list-none text-site-accent-dim transition-colors duration-100 hover:text-site-accent [&::-webkit-details-marker]:hidden">
+        <span aria-hidden="true" className="inline-block transition-transform duration-100 group-open:rotate-90 rtl:group-open:-rotate-90">{'>'}</span>
+        {' '}{messages.post.history(history.length)}
+      </summary>
+
+      <ol className="mt-3 space-y-3">
+        {history.map((revision) => (
+          <li key={revision.hash}>
+            <p className="flex flex-wrap gap-x-3">
+              <time dateTime={revision.date} className="text-site-text-dim">
+                {formatPostDate(revision.date)}
+              </time>
+              <code className="text-site-accent-dim">{revision.hash}</code>
+              <span className="text-site-text">{revision.message}</span>
+            </p>
+            {revision.diff === null ? (
+              <p className="mt-1 text-xs italic text-site-text-dim">{messages.post.firstPublished}</p>
+            ) : revision.diff ? (
+              <details className="mt-1">
+                <summary className="cursor-pointer text-xs text-site-accent-dim hover:text-site-accent">
+                  {messages.post.showDiff}
+                </summary>
+                <RevisionDiff diff={revision.diff} />
+              </details>
+            ) : null}
+          </li>
+        ))}
+      </ol>
+    </details>
+  );
+}
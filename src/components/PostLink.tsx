@@ -0,0 +1,26 @@
+import { Link } from 'react-router-dom';
+import type { LinkProps } from 'react-router-dom';
+import { getPostBySlug, getPostPath, prefetchPost } from '../lib/posts';
+
+type PostLinkProps = Omit<LinkProps, 'to'> & {
+  slug: string;
+};
+
+/** Link to a post that starts loading its body chunk on hover or focus. */
+export default function PostLink({ slug, onMouseEnter, onFocus, ...props }: PostLinkProps) {
+  return (
+    <Link
+      to={getPostPath(slug)}
+      hrefLang={getPostBySlug(slug)?.lang}
+      onMouseEnter={(event) => {
+        prefetchPost(slug);
+        onMouseEnter?.(event);
+      }}
+      onFocus={(event) => {
+        prefetchPost(slug);
+        onFocus?.(event);
+      }}
+      {...props}
+    />
+  );
+}
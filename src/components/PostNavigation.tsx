@@ -0,0 +1,76 @@
+import type { PostMeta, PostNeighbours } from '../lib/posts';
+import { formatPostDate } from '../lib/posts';
+import { useI18n } from '../lib/use-i18n';
+import PostLink from './PostLink';
+
+interface NeighbourLinkProps {
+  post: PostMeta;
+  rel: 'prev' | 'next';
+}
+
+function NeighbourLink({ post, rel }: NeighbourLinkProps) {
+  const { messages } = useI18n();
+  const isNext = rel === 'next';
+  return (
+    <PostLink
+      slug={post.slug}
+      rel={rel}
+      className={[
+        'group block rounded-sm border border-site-surface-border bg-site-surface p-4 transition-colors duration-100 hover:border-site-accent hover:no-underline',
+        isNext ? 'sm:col-start-2 sm:text-end' : '',
+      ].join(' ')}
+    >
+      <span className="block text-xs text-site-accent-dim">
+        {isNext ? messages.post.newer : messages.post.older}
+      </span>
+      <span className="mt-1 block font-semibold leading-6 text-site-text transition-colors duration-100 group-hover:text-site-accent">
+        {post.title}
+      </span>
+    </PostLink>
+  );
+}
+
+interface PostNavigationProps {
+  neighbours: PostNeighbours;
+}
+
+/** Older/newer links and tag-related posts, shown under an article. */
+export default function PostNavigation({ neighbours }: PostNavigationProps) {
+  const { messages } = useI18n();
+  const { previous, next, related } = neighbours;
+  if (!previous && !next && related.length === 0) return null;
+
+  return (
+    <div className="mt-8 space-y-8">
+      {(previous || next) && (
+        <nav aria-label={messages.post.morePosts} className="grid gap-3 sm:grid-cols-2">
+          {previous && <NeighbourLink post={previous} rel="prev" />}
+          {next && <NeighbourLink post={next} rel="next" />}
+        </nav>
+      )}
+
+      {related.length > 0 && (
+        <section aria-labelledby="related-posts">
+          <h2 id="related-posts" className="mb-3 text-base font-semibold text-site-accent">
+            {messages.post.related}
+          </h2>
+          <ul className="space-y-2 text-sm">
+            {related.map((post) => (
+              <li key={post.slug} className="flex flex-wrap items-baseline gap-x-3">
+                <time dateTime={post.date} className="text-site-text-dim">
+                  {formatPostDate(post.date)}
+                </time>
+                <PostLink
+                  slug={post.slug}
+                  className="text-site-text transition-colors duration-100 hover:text-site-accent hover:no-underline"
+                >
+                  {post.title}
+                </PostLink>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </div>
+  );
+}
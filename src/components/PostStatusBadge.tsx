@@ -0,0 +1,23 @@
+import type { PostStatus } from '../lib/frontmatter';
+
+interface PostStatusBadgeProps {
+  status: PostStatus;
+}
+
+const statusClass: Record<Exclude<PostStatus, 'published'>, string> = {
+  draft: 'border-amber-400/60 text-amber-300',
+  scheduled: 'border-site-accent/60 text-site-accent',
+};
+
+/** Dev-only marker for posts that production builds leave out. */
+export default function PostStatusBadge({ status }: PostStatusBadgeProps) {
+  if (status === 'published') return null;
+
+  return (
+    <span
+      className={`inline-block rounded-sm border px-1.5 text-[0.65rem] font-semibold uppercase leading-5 tracking-[0.12em] ${statusClass[status]}`}
+    >
+      {status}
+    </span>
+  );
+}
@@ -0,0 +1,42 @@
+import type { ComponentPropsWithoutRef } from 'react';
+import { fallbackSrc, srcSetOf } from '../lib/images';
+import type { ResponsiveImageData } from '../lib/images';
+
+type ResponsiveImageProps = Omit<ComponentPropsWithoutRef<'img'>, 'src' | 'srcSet' | 'width' | 'height'> & {
+  image: ResponsiveImageData;
+};
+
+// Post bodies top out around 56rem wide; narrower screens use the full width.
+const DEFAULT_SIZES = '(min-width: 64rem) 56rem, 100vw';
+
+/**
+ * A build-time processed image (src/lib/images.ts): AVIF with a WebP
+ * fallback, intrinsic dimensions against layout shift, and a blurred
+ * placeholder behind it until it loads.
+ */
+export default function ResponsiveImage({
+  image,
+  sizes = DEFAULT_SIZES,
+  loading = 'lazy',
+  style,
+  ...props
+}: ResponsiveImageProps) {
+  return (
+    <picture>
+      <source type="image/avif" srcSet={srcSetOf(image.variants.avif)} sizes={sizes} />
+      <img
+        src={fallbackSrc(image)}
+        srcSet={srcSetOf(image.variants.webp)}
+        sizes={sizes}
+        width={image.width}
+        height={image.height}
+        loading={loading}
+        decoding="async"
+        style={image.placeholder
+          ? { backgroundImage: `url("${image.placeholder}")`, backgroundSize: 'cover', backgroundPosition: 'center', ...style }
+          : style}
+        {...props}
+      />
+    </picture>
+  );
+}
@@ -0,0 +1,97 @@
+import { useEffect, useState } from 'react';
+import { searchPosts } from '../lib/search';
+import type { HighlightSegment, SearchIndex } from '../lib/search';
+import { formatPostDate } from '../lib/posts';
+import { useI18n } from '../lib/use-i18n';
+import PostLink from './PostLink';
+
+let indexPromise: Promise<SearchIndex> | undefined;
+
+/** Loads the index chunk once; later searches share it. */
+function loadSearchIndex(): Promise<SearchIndex> {
+  indexPromise ??= import('virtual:search-index').then((mod) => mod.default);
+  return indexPromise;
+}
+
+function Highlighted({ segments }: { segments: HighlightSegment[] }) {
+  return (
+    <>
+      {segments.map((segment, i) =>
+        segment.match ? (
+          <mark key={i} className="rounded-[2px] bg-site-accent/20 px-0.5 text-site-accent">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={i}>{segment.text}</span>
+        ),
+      )}
+    </>
+  );
+}
+
+interface SearchResultsProps {
+  query: string;
+}
+
+export default function SearchResults({ query }: SearchResultsProps) {
+  const { messages } = useI18n();
+  const [index, setIndex] = useState<SearchIndex | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadSearchIndex().then(
+      (loaded) => !cancelled && setIndex(loaded),
+      () => !cancelled && setFailed(true),
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (failed) {
+    return <p className="text-base text-red-500">{'>'} ERROR: {messages.search.error}</p>;
+  }
+
+  if (!index) {
+    return <p className="text-sm text-site-text-dim">{'>'} {messages.search.indexing}<span className="animate-pulse">_</span></p>;
+  }
+
+  const results = searchPosts(index, query);
+
+  if (results.length === 0) {
+    return (
+      <p className="italic text-site-text-dim">
+        {messages.search.noMatches(query)}
+      </p>
+    );
+  }
+
+  return (
+    <>
+      <p className="mb-3 text-xs text-site-text-dim" aria-live="polite">
+        {messages.search.results(results.length)}
+      </p>
+      <ul className="space-y-3 sm:space-y-4">
+        {results.map(({ doc, title, snippet }) => (
+          <li key={doc.slug}>
+            <PostLink
+              slug={doc.slug}
+              className="group block rounded-sm border border-site-surface-border bg-site-surface p-4 text-site-text transition-colors duration-100 hover:border-site-accent hover:no-underline sm:p-5 lg:p-6"
+            >
+              <time dateTime={doc.date} className="text-xs text-site-text-dim">
+                {formatPostDate(doc.date)}
+              </time>
+              <h2 className="my-2 text-[1.02rem] font-semibold leading-6 text-site-text transition-colors duration-100 group-hover:text-site-accent sm:text-lg">
+                <Highlighted segments={title} />
+              </h2>
+              <p className="text-sm leading-7 text-site-text-dim sm:text-base">
+                <Highlighted segments={snippet} />
+              </p>
+            </PostLink>
+          </li>
+        ))}
+      </ul>
+    </>
+  );
+}
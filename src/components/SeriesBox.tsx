@@ -0,0 +1,79 @@
+import { Link } from 'react-router-dom';
+import { seriesPath } from '../lib/posts';
+import type { SeriesSummary } from '../lib/posts';
+import { useI18n } from '../lib/use-i18n';
+import PostLink from './PostLink';
+
+interface SeriesBoxProps {
+  series: SeriesSummary;
+  currentSlug: string;
+}
+
+/** Every part of the series the current post belongs to, with part-to-part links. */
+export default function SeriesBox({ series, currentSlug }: SeriesBoxProps) {
+  const { messages } = useI18n();
+  const index = series.parts.findIndex(({ post }) => post.slug === currentSlug);
+  const current = series.parts[index];
+  const previous = series.parts[index - 1];
+  const next = series.parts[index + 1];
+
+  return (
+    <nav
+      aria-label={`${messages.post.series}: ${series.id}`}
+      className="mb-8 rounded-sm border border-site-surface-border bg-black/30 px-4 py-3 text-sm"
+    >
+      <p className="mb-3 text-site-text-dim">
+        {messages.post.series}{' '}
+        <Link
+          to={seriesPath(series.id)}
+          className="text-site-accent-dim transition-colors duration-100 hover:text-site-accent hover:no-underline"
+        >
+          {series.id}
+        </Link>
+        {' '}· {messages.post.seriesPart(current.part, series.partCount)}
+      </p>
+
+      <ol className="space-y-1">
+        {series.parts.map(({ part, post }) => (
+          <li key={post.slug} className="flex gap-2">
+            <span className="text-site-text-dim">{String(part).padStart(2, '0')}.</span>
+            {post.slug === currentSlug ? (
+              <span aria-current="page" className="text-site-accent">
+                <span aria-hidden="true">{'> '}</span>
+                {post.title}
+              </span>
+            ) : (
+              <PostLink
+                slug={post.slug}
+                className="text-site-text transition-colors duration-100 hover:text-site-accent hover:no-underline"
+              >
+                {post.title}
+              </PostLink>
+            )}
+          </li>
+        ))}
+      </ol>
+
+      {(previous || next) && (
+        <div className="mt-3 flex flex-wrap justify-between gap-3 border-t border-dashed border-site-surface-border pt-3">
+          {previous ? (
+            <PostLink
+              slug={previous.post.slug}
+              className="text-site-accent-dim transition-colors duration-100 hover:text-site-accent hover:no-underline"
+            >
+              {'<'}- {messages.post.partLink(previous.part)}
+            </PostLink>
+          ) : <span />}
+          {next && (
+            <PostLink
+              slug={next.post.slug}
+              className="text-site-accent-dim transition-colors duration-100 hover:text-site-accent hover:no-underline"
+            >
+              {messages.post.partLink(next.part)} -&gt;
+            </PostLink>
+          )}
+        </div>
+      )}
+    </nav>
+  );
+}
@@ -0,0 +1,117 @@
+import { useEffect, useMemo, useState } from 'react';
+import { flattenToc } from '../lib/toc';
+import type { TocEntry } from '../lib/toc';
+import { useI18n } from '../lib/use-i18n';
+
+// A heading becomes current once its top passes just under the sticky nav.
+const ACTIVE_OFFSET_PX = 96;
+
+/** Id of the last heading scrolled past, re-evaluated once per animation frame. */
+function useActiveHeading(ids: string[]): string | undefined {
+  const [activeId, setActiveId] = useState<string | undefined>(undefined);
+
+  useEffect(() => {
+    if (ids.length === 0) return;
+
+    let frame = 0;
+    const update = () => {
+      frame = 0;
+      let current: string | undefined;
+      for (const id of ids) {
+        const element = document.getElementById(id);
+        if (element && element.getBoundingClientRect().top <= ACTIVE_OFFSET_PX) {
+          current = id;
+        }
+      }
+      setActiveId(current ?? ids[0]);
+    };
+    const schedule = () => {
+      if (!frame) frame = requestAnimationFrame(update);
+    };
+
+    update();
+    window.addEventListener('scroll', schedule, { passive: true });
+    window.addEventListener('resize', schedule);
+    return () => {
+      window.removeEventListener('scroll', schedule);
+      window.removeEventListener('resize', schedule);
+      if (frame) cancelAnimationFrame(frame);
+    };
+  }, [ids]);
+
+  return activeId;
+}
+
+interface TocListProps {
+  entries: TocEntry[];
+  activeId: string | undefined;
+  nested?: boolean;
+}
+
+function TocList({ entries, activeId, nested = false }: TocListProps) {
+  return (
+    <ol className={nested ? 'mt-1 space-y-1 border-s border-site-surface-border ps-3' : 'space-y-1'}>
+      {entries.map((entry) => {
+        const isActive = entry.id === activeId;
+        return (
+          <li key={entry.id}>
+            <a
+              href={`#${entry.id}`}
+              aria-current={isActive ? 'location' : undefined}
+              className={[
+                'block leading-6 transition-colors duration-100 hover:no-underline',
+                isActive ? 'text-site-accent' : 'text-site-text-dim hover:text-site-accent',
+              ].join(' ')}
+            >
+              {isActive && <span aria-hidden="true">{'> '}</span>}
+              {entry.text}
+            </a>
+            {entry.children.length > 0 && (
+              <TocList entries={entry.children} activeId={activeId} nested />
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
+
+interface TableOfContentsProps {
+  entries: TocEntry[];
+  variant: 'sidebar' | 'collapsible';
+}
+
+/**
+ * Post outline with the section currently in view highlighted. The sidebar
+ * variant sticks beside the article on wide screens; the collapsible one sits
+ * above the body on narrower ones.
+ */
+export default function TableOfContents({ entries, variant }: TableOfContentsProps) {
+  const ids = useMemo(() => flattenToc(entries).map((entry) => entry.id), [entries]);
+  const activeId = useActiveHeading(ids);
+  const { messages } = useI18n();
+
+  if (variant === 'collapsible') {
+    return (
+      <details className="group mb-8 rounded-sm border border-site-surface-border bg-black/30 px-4 py-3 text-sm">
+        <summary className="cursor-pointer list-none text-site-accent-dim transition-colors duration-100 hover:text-site-accent [&::-webkit-details-marker]:hidden">
+          <span aria-hidden="true" className="inline-block transition-transform duration-100 group-open:rotate-90 rtl:group-open:-rotate-90">{'>'}</span>
+          {' '}{messages.post.contents}
+        </summary>
+        <nav aria-label={messages.post.tableOfContents} className="mt-3">
+          <TocList entries={entries} activeId={activeId} />
+        </nav>
+      </details>
+    );
+  }
+
+  return (
+    <nav
+      aria-label={messages.post.tableOfContents}
+      className="sticky top-20 max-h-[calc(100vh-6rem)] overflow-y-auto rounded-sm border border-site-surface-border bg-site-surface p-4 text-xs"
+    >
+      <p className="mb-3 font-semibold uppercase tracking-[0.12em] text-site-accent">{messages.post.contents}</p>
+      <TocList entries={entries} activeId={activeId} />
+    </nav>
+  );
+}
@@ -0,0 +1,26 @@
+import { Link } from 'react-router-dom';
+import { tagPath } from '../lib/posts';
+
+interface TagListProps {
+  tags: string[];
+  className?: string;
+}
+
+export default function TagList({ tags, className = 'text-xs' }: TagListProps) {
+  if (tags.length === 0) return null;
+
+  return (
+    <ul className={`relative z-10 flex flex-wrap gap-2 ${className}`}>
+      {tags.map((tag) => (
+        <li key={tag}>
+          <Link
+            to={tagPath(tag)}
+            className="text-site-accent-dim transition-colors duration-100 hover:text-site-accent hover:no-underline"
+          >
+            [{tag}]
+          </Link>
+        </li>
+      ))}
+    </ul>
+  );
+}
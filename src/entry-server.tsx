@@ -0,0 +1,48 @@
+import { StrictMode } from 'react';
+import { renderToString } from 'react-dom/server';
+import { StaticRouter } from 'react-router-dom';
+import App, { routes } from './App';
+import { HeadContext, renderHead } from './lib/head';
+import type { HeadData } from './lib/head';
+import { LOCALE_INFO, localeFromPath } from './lib/i18n';
+import type { Locale } from './lib/i18n';
+import { getAllRedirects } from './lib/posts';
+import type { PostRedirect } from './lib/posts';
+import { getPrerenderPages, preloadRoute } from './lib/routes';
+import type { PrerenderPage } from './lib/routes';
+
+// Build-time entry for plugins/vite-plugin-prerender.js; never shipped to the browser.
+
+export function getPages(): PrerenderPage[] {
+  return getPrerenderPages(routes);
+}
+
+export function getRedirects(): PostRedirect[] {
+  return getAllRedirects();
+}
+
+export interface RenderResult {
+  html: string;
+  /** Tags for `<head>`, or `undefined` when the page declared none. */
+  head: string | undefined;
+  /** For `<html lang dir>`. */
+  lang: Locale;
+  dir: 'ltr' | 'rtl';
+}
+
+export async function render(url: string): Promise<RenderResult> {
+  await preloadRoute(routes, url);
+
+  let head: HeadData | undefined;
+  const html = renderToString(
+    <StrictMode>
+      <HeadContext.Provider value={(value) => (head = value)}>
+        <StaticRouter location={url}>
+          <App />
+        </StaticRouter>
+      </HeadContext.Provider>
+    </StrictMode>
+  );
+  const lang = localeFromPath(url);
+  return { html, head: head && renderHead(head), lang, dir: LOCALE_INFO[lang].dir };
+}
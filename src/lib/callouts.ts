@@ -0,0 +1,22 @@
+/**
+ * Note/tip/warning/danger boxes in posts. plugins/remark-callouts.js turns
+ * `:::warning Title` directives and GitHub-style `> [!WARNING]` alerts into
+ * `<Callout>` elements, rendered by the `Callout` entry in `mdxComponents`.
+ */
+
+export const CALLOUT_TYPES = ['note', 'tip', 'warning', 'danger'] as const;
+export type CalloutType = (typeof CALLOUT_TYPES)[number];
+
+export function isCalloutType(value: string): value is CalloutType {
+  return (CALLOUT_TYPES as readonly string[]).includes(value);
+}
+
+/** GitHub alert markers (`[!NOTE]`, ...) and the callout each one becomes. */
+export const GITHUB_ALERT_TYPES: Record<string, CalloutType> = {
+  NOTE: 'note',
+  TIP: 'tip',
+  IMPORTANT: 'note',
+  WARNING: 'warning',
+  CAUTION: 'danger',
+  DANGER: 'danger',
+};
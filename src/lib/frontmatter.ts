@@ -0,0 +1,256 @@
+/**
+ * Frontmatter schema for blog posts.
+ * Single source of truth for what a post may declare: the build-time validator
+ * (plugins/remark-validate-frontmatter.js) runs every MDX file through
+ * `parseFrontmatter`, and the `*.mdx` module types are derived from it.
+ */
+
+import { DEFAULT_LOCALE, LOCALES, isLocale } from './i18n';
+import type { Locale } from './i18n';
+
+export class FrontmatterError extends Error {
+  readonly field: string;
+  readonly reason: string;
+
+  constructor(field: string, reason: string) {
+    super(`field "${field}": ${reason}`);
+    this.name = 'FrontmatterError';
+    this.field = field;
+    this.reason = reason;
+  }
+}
+
+type Field<T> = (value: unknown, name: string) => T;
+
+const ISO_DATE_PATTERN =
+  /^(\d{4})-(\d{2})-(\d{2})(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+
+const IDENTIFIER_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const ALIAS_PATH_PATTERN = /^\/[^\s?#]*$/;
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'a list';
+  if (typeof value === 'string') return `"${value}"`;
+  return typeof value;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// ============================================================================
+// FIELD TYPES
+// ============================================================================
+
+function text(): Field<string> {
+  return (value, name) => {
+    if (value === undefined) {
+      throw new FrontmatterError(name, 'is required');
+    }
+    if (typeof value !== 'string' || value.trim() === '') {
+      throw new FrontmatterError(name, `expected a non-empty string, got ${describe(value)}`);
+    }
+    return value.trim();
+  };
+}
+
+function textList(): Field<string[]> {
+  return (value, name) => {
+    if (!Array.isArray(value)) {
+      throw new FrontmatterError(name, `expected a list of strings, got ${describe(value)}`);
+    }
+    return value.map((item, index) => text()(item, `${name}[${index}]`));
+  };
+}
+
+/** Accepts `YYYY-MM-DD` or a full ISO 8601 timestamp and normalizes it to `Date#toISOString()`. */
+function isoDate(): Field<string> {
+  return (value, name) => {
+    if (value === undefined) {
+      throw new FrontmatterError(name, 'is required');
+    }
+
+    const raw = value instanceof Date ? value.toISOString() : value;
+    const match = typeof raw === 'string' ? ISO_DATE_PATTERN.exec(raw.trim()) : null;
+    if (typeof raw !== 'string' || !match) {
+      throw new FrontmatterError(name, `expected an ISO 8601 date (YYYY-MM-DD), got ${describe(value)}`);
+    }
+
+    const [input, year, month, day] = match;
+    const date = new Date(input);
+    // `new Date('2024-02-31')` quietly rolls over into March.
+    const isDateOnly = input.length === 10;
+    const isRealDay =
+      date.getUTCFullYear() === Number(year) &&
+      date.getUTCMonth() + 1 === Number(month) &&
+      date.getUTCDate() === Number(day);
+    if (Number.isNaN(date.getTime()) || (isDateOnly && !isRealDay)) {
+      throw new FrontmatterError(name, `"${raw}" is not a real calendar date`);
+    }
+
+    return date.toISOString();
+  };
+}
+
+/** Lowercases and collapses whitespace so `TypeScript` and ` typescript ` are the same tag. */
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+function tagList(): Field<string[]> {
+  return (value, name) => [...new Set(textList()(value, name).map(normalizeTag))];
+}
+
+function flag(): Field<boolean> {
+  return (value, name) => {
+    if (typeof value !== 'boolean') {
+      throw new FrontmatterError(name, `expected true or false, got ${describe(value)}`);
+    }
+    return value;
+  };
+}
+
+function positiveNumber(): Field<number> {
+  return (value, name) => {
+    if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+      throw new FrontmatterError(name, `expected a positive number, got ${describe(value)}`);
+    }
+    return value;
+  };
+}
+
+function positiveInteger(): Field<number> {
+  return (value, name) => {
+    if (!Number.isInteger(value) || (value as number) < 1) {
+      throw new FrontmatterError(name, `expected a whole number of 1 or more, got ${describe(value)}`);
+    }
+    return value as number;
+  };
+}
+
+/** A URL-safe id such as `webgl-from-scratch`. */
+function identifier(): Field<string> {
+  return (value, name) => {
+    const id = text()(value, name);
+    if (!IDENTIFIER_PATTERN.test(id)) {
+      throw new FrontmatterError(name, `expected lowercase letters, digits and dashes (like "my-series"), got "${id}"`);
+    }
+    return id;
+  };
+}
+
+function locale(): Field<Locale> {
+  return (value, name) => {
+    if (!isLocale(value)) {
+      throw new FrontmatterError(name, `expected one of ${LOCALES.join(', ')}, got ${describe(value)}`);
+    }
+    return value;
+  };
+}
+
+/**
+ * Old URLs of a post: a site path like `/2019/05/old-post`, or a bare slug as
+ * shorthand for `/blog/<slug>`. Normalized to paths without a trailing slash.
+ */
+function aliasList(): Field<string[]> {
+  return (value, name) => {
+    const aliases = textList()(value, name).map((alias, index) => {
+      if (!alias.startsWith('/')) return `/blog/${identifier()(alias, `${name}[${index}]`)}`;
+      if (!ALIAS_PATH_PATTERN.test(alias)) {
+        throw new FrontmatterError(`${name}[${index}]`, `expected a site path without query or hash, got "${alias}"`);
+      }
+      return alias.length > 1 ? alias.replace(/\/+$/, '') : alias;
+    });
+    return [...new Set(aliases)];
+  };
+}
+
+function optional<T>(field: Field<T>): Field<T | undefined> {
+  return (value, name) => (value === undefined || value === null ? undefined : field(value, name));
+}
+
+function withDefault<T>(field: Field<T>, fallback: T): Field<T> {
+  return (value, name) => (value === undefined || value === null ? fallback : field(value, name));
+}
+
+// ============================================================================
+// SCHEMA
+// ============================================================================
+
+export const frontmatterSchema = {
+  title: text(),
+  date: isoDate(),
+  /** Last significant revision; must not be before `date`. */
+  updated: optional(isoDate()),
+  description: text(),
+  /** Language of the post; anything but English is listed under its own prefix, e.g. `/fr/blog/`. */
+  lang: withDefault(locale(), DEFAULT_LOCALE),
+  /** Id shared by a post and its translations, so they can link to each other. */
+  translationKey: optional(identifier()),
+  /** URL segment under `/blog/`; defaults to the file name. */
+  slug: optional(identifier()),
+  /** Old URLs that redirect here, e.g. after a rename. */
+  aliases: withDefault(aliasList(), []),
+  tags: withDefault(tagList(), []),
+  /**
+   * Image path relative to the post file, e.g. `./cover.jpg`; shown on cards and
+   * above the post. Decorative, so it gets no alt text.
+   */
+  cover: optional(text()),
+  draft: withDefault(flag(), false),
+  /** Minutes; overrides the estimate for posts that are mostly interactive. */
+  readingMinutes: optional(positiveNumber()),
+  /** Id shared by every part of a multi-part series; needs `seriesOrder`. */
+  series: optional(identifier()),
+  /** 1-based position in `series`; parts must count up from 1 without gaps. */
+  seriesOrder: optional(positiveInteger()),
+} satisfies Record<string, Field<unknown>>;
+
+export type Frontmatter = {
+  [K in keyof typeof frontmatterSchema]: ReturnType<(typeof frontmatterSchema)[K]>;
+};
+
+/** Validates raw (YAML-parsed) frontmatter, throwing a `FrontmatterError` on the first bad field. */
+export function parseFrontmatter(input: unknown): Frontmatter {
+  if (!isRecord(input)) {
+    throw new FrontmatterError('frontmatter', `expected a YAML mapping at the top of the file, got ${describe(input)}`);
+  }
+
+  const unknownField = Object.keys(input).find(
+    (key) => !Object.prototype.hasOwnProperty.call(frontmatterSchema, key),
+  );
+  if (unknownField) {
+    throw new FrontmatterError(unknownField, `unknown field (allowed: ${Object.keys(frontmatterSchema).join(', ')})`);
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [name, field] of Object.entries(frontmatterSchema)) {
+    result[name] = field(input[name], name);
+  }
+
+  const frontmatter = result as Frontmatter;
+  if (frontmatter.updated !== undefined && Date.parse(frontmatter.updated) < Date.parse(frontmatter.date)) {
+    throw new FrontmatterError('updated', `${frontmatter.updated} is before the post's date (${frontmatter.date})`);
+  }
+  if (frontmatter.series !== undefined && frontmatter.seriesOrder === undefined) {
+    throw new FrontmatterError('seriesOrder', 'is required when "series" is set');
+  }
+  if (frontmatter.seriesOrder !== undefined && frontmatter.series === undefined) {
+    throw new FrontmatterError('series', 'is required when "seriesOrder" is set');
+  }
+  return frontmatter;
+}
+
+// ============================================================================
+// PUBLISHING
+// ============================================================================
+
+export type PostStatus = 'published' | 'draft' | 'scheduled';
+
+/** Drafts are never published; posts dated after `now` are scheduled until a later build. */
+export function getPostStatus(frontmatter: Pick<Frontmatter, 'draft' | 'date'>, now: number = Date.now()): PostStatus {
+  if (frontmatter.draft) return 'draft';
+  if (Date.parse(frontmatter.date) > now) return 'scheduled';
+  return 'published';
+}
@@ -0,0 +1,196 @@
+/**
+ * Per-route `<head>` tags: title, description, canonical URL, language
+ * alternates, OpenGraph and Twitter cards, and JSON-LD. Pages declare them with `<Head>`
+ * (src/components/Head.tsx); the prerenderer collects them through
+ * `HeadContext`, and in the browser they are swapped on every navigation.
+ */
+
+import { createContext } from 'react';
+import { DEFAULT_LOCALE, LOCALE_INFO } from './i18n';
+import type { Locale } from './i18n';
+import { SITE_AUTHOR, SITE_TITLE, SITE_URL, absoluteUrl } from './site';
+
+export interface HeadData {
+  /** Page title without the ` | chiboub.tn` suffix. */
+  title: string;
+  description: string;
+  /** Site path of the canonical URL, e.g. `/blog/foo`. */
+  path: string;
+  /** Language of the page; `<Head>` fills it in from the URL. */
+  locale?: Locale;
+  /** Versions of the page in every language it exists in, itself included. */
+  alternates?: Array<{ locale: Locale; path: string }>;
+  type?: 'website' | 'article';
+  article?: {
+    publishedTime: string;
+    modifiedTime?: string;
+    tags: string[];
+  };
+  jsonLd?: Record<string, unknown>;
+  /** Social card; pages without one get a text-only `summary` card. */
+  image?: {
+    /** Site path, e.g. `/og/foo.png`. */
+    path: string;
+    width: number;
+    height: number;
+    alt: string;
+  };
+  /** Keeps the page out of search results, e.g. a "not found" page. */
+  noindex?: boolean;
+}
+
+/** One element to place in `<head>`. Every managed element carries `data-head`. */
+export interface HeadTag {
+  tag: 'meta' | 'link' | 'script';
+  attributes: Record<string, string>;
+  content?: string;
+}
+
+/** Set by the prerenderer; the last `<Head>` rendered for a page wins. */
+export const HeadContext = createContext<((head: HeadData) => void) | null>(null);
+
+export function formatTitle(title: string): string {
+  return title === SITE_TITLE ? title : `${title} | ${SITE_TITLE}`;
+}
+
+/** Structured data for a post, as schema.org `BlogPosting`. */
+export function blogPostingJsonLd(post: {
+  title: string;
+  description: string;
+  date: string;
+  updated?: string;
+  tags: string[];
+  lang: Locale;
+  path: string;
+  image?: string;
+}): Record<string, unknown> {
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'BlogPosting',
+    headline: post.title,
+    description: post.description,
+    datePublished: post.date,
+    dateModified: post.updated ?? post.date,
+    keywords: post.tags.join(', '),
+    inLanguage: post.lang,
+    url: absoluteUrl(post.path),
+    mainEntityOfPage: absoluteUrl(post.path),
+    ...(post.image ? { image: absoluteUrl(post.image) } : {}),
+    author: { '@type': 'Person', name: SITE_AUTHOR, url: SITE_URL },
+  };
+}
+
+export function buildHeadTags(head: HeadData): HeadTag[] {
+  const title = formatTitle(head.title);
+  const url = absoluteUrl(head.path);
+  const meta = (key: 'name' | 'property', name: string, content: string): HeadTag => ({
+    tag: 'meta',
+    attributes: { [key]: name, content },
+  });
+
+  const locale = head.locale ?? DEFAULT_LOCALE;
+
+  const tags: HeadTag[] = [
+    meta('name', 'description', head.description),
+    { tag: 'link', attributes: { rel: 'canonical', href: url } },
+  ];
+  if (head.noindex) tags.push(meta('name', 'robots', 'noindex'));
+
+  // Only worth announcing when the page really exists in another language.
+  const alternates = head.alternates ?? [];
+  if (alternates.length > 1) {
+    const fallback = alternates.find((alternate) => alternate.locale === DEFAULT_LOCALE) ?? alternates[0];
+    for (const alternate of [...alternates, { ...fallback, locale: 'x-default' }]) {
+      tags.push({
+        tag: 'link',
+        attributes: { rel: 'alternate', hreflang: alternate.locale, href: absoluteUrl(alternate.path) },
+      });
+    }
+  }
+
+  tags.push(
+    meta('property', 'og:site_name', SITE_TITLE),
+    meta('property', 'og:locale', LOCALE_INFO[locale].ogLocale),
+    meta('property', 'og:type', head.type ?? 'website'),
+    meta('property', 'og:title', title),
+    meta('property', 'og:description', head.description),
+    meta('property', 'og:url', url),
+    meta('name', 'twitter:card', head.image ? 'summary_large_image' : 'summary'),
+    meta('name', 'twitter:title', title),
+    meta('name', 'twitter:description', head.description),
+  );
+  for (const alternate of alternates) {
+    if (alternate.locale !== locale) {
+      tags.push(meta('property', 'og:locale:alternate', LOCALE_INFO[alternate.locale].ogLocale));
+    }
+  }
+
+  if (head.image) {
+    const image = absoluteUrl(head.image.path);
+    tags.push(
+      meta('property', 'og:image', image),
+      meta('property', 'og:image:width', String(head.image.width)),
+      meta('property', 'og:image:height', String(head.image.height)),
+      meta('property', 'og:image:alt', head.image.alt),
+      meta('name', 'twitter:image', image),
+    );
+  }
+
+  if (head.article) {
+    tags.push(meta('property', 'article:published_time', head.article.publishedTime));
+    if (head.article.modifiedTime) {
+      tags.push(meta('property', 'article:modified_time', head.article.modifiedTime));
+    }
+    for (const tag of head.article.tags) tags.push(meta('property', 'article:tag', tag));
+  }
+  if (head.jsonLd) {
+    tags.push({
+      tag: 'script',
+      attributes: { type: 'application/ld+json' },
+      // `</script>` inside a string would end the element early.
+      content: JSON.stringify(head.jsonLd).replace(/</g, '\\u003c'),
+    });
+  }
+
+  return tags;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/** `<title>` plus every tag as HTML, for prerendered pages. */
+export function renderHead(head: HeadData): string {
+  const tags = buildHeadTags(head).map(({ tag, attributes, content }) => {
+    const attrs = Object.entries(attributes)
+      .map(([name, value]) => ` ${name}="${escapeHtml(value)}"`)
+      .join('');
+    return tag === 'script'
+      ? `<script data-head${attrs}>${content ?? ''}</script>`
+      : `<${tag} data-head${attrs} />`;
+  });
+  return [`<title>${escapeHtml(formatTitle(head.title))}</title>`, ...tags].join('\n    ');
+}
+
+/**
+ * Replaces the managed tags in `document.head`, e.g. after client-side
+ * navigation, and sets the page language and direction on `<html>`.
+ */
+export function applyHead(head: HeadData): void {
+  const locale = head.locale ?? DEFAULT_LOCALE;
+  document.documentElement.lang = locale;
+  document.documentElement.dir = LOCALE_INFO[locale].dir;
+  document.title = formatTitle(head.title);
+  document.head.querySelectorAll('[data-head]').forEach((element) => element.remove());
+  for (const { tag, attributes, content } of buildHeadTags(head)) {
+    const element = document.createElement(tag);
+    element.setAttribute('data-head', '');
+    for (const [name, value] of Object.entries(attributes)) element.setAttribute(name, value);
+    if (content !== undefined) element.textContent = content;
+    document.head.append(element);
+  }
+}
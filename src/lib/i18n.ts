@@ -0,0 +1,401 @@
+/**
+ * Languages the blog is published in, and the UI string catalog.
+ * English lives at `/blog`; other languages get a prefix (`/fr/blog`,
+ * `/ar/blog`). Components read the catalog through `useI18n()`
+ * (src/lib/use-i18n.ts), which picks the language from the URL.
+ */
+
+import type { CalloutType } from './callouts';
+
+export const LOCALES = ['en', 'fr', 'ar'] as const;
+export type Locale = (typeof LOCALES)[number];
+export const DEFAULT_LOCALE: Locale = 'en';
+
+interface LocaleInfo {
+  /** Name in the language itself, for language links. */
+  label: string;
+  dir: 'ltr' | 'rtl';
+  /** `og:locale` value. */
+  ogLocale: string;
+}
+
+export const LOCALE_INFO: Record<Locale, LocaleInfo> = {
+  en: { label: 'English', dir: 'ltr', ogLocale: 'en_US' },
+  fr: { label: 'Français', dir: 'ltr', ogLocale: 'fr_FR' },
+  ar: { label: 'العربية', dir: 'rtl', ogLocale: 'ar_TN' },
+};
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && (LOCALES as readonly string[]).includes(value);
+}
+
+/** URL prefix for a language: `''` for English, `/fr` for French. */
+export function localePrefix(locale: Locale): string {
+  return locale === DEFAULT_LOCALE ? '' : `/${locale}`;
+}
+
+/** The language a site path belongs to, from its first segment. */
+export function localeFromPath(pathname: string): Locale {
+  const segment = pathname.split('/')[1];
+  return isLocale(segment) ? segment : DEFAULT_LOCALE;
+}
+
+// ============================================================================
+// CATALOG
+// ============================================================================
+
+export interface Messages {
+  nav: {
+    home: string;
+    blog: string;
+    footer: string;
+  };
+  notFound: {
+    title: string;
+    description: string;
+    noSuchPage: (path: string) => string;
+    /** Link home, or to the blog where the language has no home page of its own. */
+    back: string;
+  };
+  blog: {
+    title: string;
+    description: string;
+    pageOf: (page: number, pageCount: number) => string;
+    pageTitle: (page: number) => string;
+    browseTags: string;
+    archive: string;
+    searchLabel: string;
+    searchPlaceholder: string;
+    empty: string;
+    pageNotFound: (page: string) => string;
+    backToBlog: string;
+    postCount: (count: number) => string;
+  };
+  archive: {
+    title: string;
+    description: string;
+    intro: string;
+  };
+  tags: {
+    title: string;
+    description: string;
+    empty: string;
+    /** Description of one tag's page. */
+    taggedPosts: (tag: string) => string;
+    /** Intro of one tag's page. */
+    taggedCount: (count: number, tag: string) => string;
+    notFound: string;
+    allTags: string;
+  };
+  series: {
+    /** Description of the series page. */
+    parts: (count: number) => string;
+    /** Intro of the series page. */
+    readingOrder: (count: number) => string;
+    notFound: string;
+  };
+  pagination: {
+    label: string;
+    newer: string;
+    older: string;
+    page: (page: number) => string;
+  };
+  search: {
+    indexing: string;
+    error: string;
+    noMatches: (query: string) => string;
+    results: (count: number) => string;
+  };
+  post: {
+    notFound: string;
+    loadError: string;
+    loading: string;
+    updated: string;
+    words: (count: number) => string;
+    minutes: (count: number) => string;
+    translations: string;
+    contents: string;
+    tableOfContents: string;
+    morePosts: string;
+    older: string;
+    newer: string;
+    related: string;
+    series: string;
+    seriesPart: (part: number, count: number) => string;
+    partLink: (part: number) => string;
+    history: (count: number) => string;
+    showDiff: string;
+    firstPublished: string;
+    callouts: Record<CalloutType, string>;
+    copyCode: string;
+    codeCopied: string;
+    copyLink: string;
+    linkCopied: string;
+    footnotes: string;
+    backToReference: (label: string) => string;
+  };
+}
+
+const en: Messages = {
+  nav: {
+    home: 'home',
+    blog: 'blog',
+    footer: 'Built with React, Tailwind, and a pixelated WebGL night sky.',
+  },
+  notFound: {
+    title: 'Not found',
+    description: 'No such page.',
+    noSuchPage: (path) => `${path}: no such page.`,
+    back: '<- back home',
+  },
+  blog: {
+    title: 'Blog',
+    description: 'Notes on software, systems, and whatever else survives first contact with reality.',
+    pageOf: (page, pageCount) => `page ${page} of ${pageCount}`,
+    pageTitle: (page) => `Blog (page ${page})`,
+    browseTags: 'browse by tag ->',
+    archive: 'archive ->',
+    searchLabel: 'Search posts',
+    searchPlaceholder: 'grep the blog...',
+    empty: 'No posts yet. Check back soon.',
+    pageNotFound: (page) => `page ${page} does not exist.`,
+    backToBlog: '<- back to blog',
+    postCount: (count) => `${count} ${count === 1 ? 'post' : 'posts'}`,
+  },
+  archive: {
+    title: 'Archive',
+    description: 'Every post, by year and month.',
+    intro: 'Everything, by year and month.',
+  },
+  tags: {
+    title: 'Tags',
+    description: 'Every topic written about so far, and how often.',
+    empty: 'No tags yet.',
+    taggedPosts: (tag) => `Posts tagged "${tag}".`,
+    taggedCount: (count, tag) => `${count} ${count === 1 ? 'post' : 'posts'} tagged "${tag}".`,
+    notFound: 'tag not found.',
+    allTags: '<- all tags',
+  },
+  series: {
+    parts: (count) => `A series in ${count} ${count === 1 ? 'part' : 'parts'}.`,
+    readingOrder: (count) => `A series in ${count} ${count === 1 ? 'part' : 'parts'}, in reading order.`,
+    notFound: 'series not found.',
+  },
+  pagination: {
+    label: 'Blog pages',
+    newer: '<- newer',
+    older: 'older ->',
+    page: (page) => `Page ${page}`,
+  },
+  search: {
+    indexing: 'indexing',
+    error: 'could not load the search index.',
+    noMatches: (query) => `No posts match "${query}".`,
+    results: (count) => `${count} ${count === 1 ? 'result' : 'results'}`,
+  },
+  post: {
+    notFound: 'post not found.',
+    loadError: 'could not load this post. Check your connection and reload.',
+    loading: 'loading',
+    updated: 'updated',
+    words: (count) => `${count.toLocaleString('en')} ${count === 1 ? 'word' : 'words'}`,
+    minutes: (count) => `${count} min read`,
+    translations: 'also in',
+    contents: 'contents',
+    tableOfContents: 'Table of contents',
+    morePosts: 'More posts',
+    older: '<- older',
+    newer: 'newer ->',
+    related: 'Related posts',
+    series: 'series',
+    seriesPart: (part, count) => `part ${part} of ${count}`,
+    partLink: (part) => `part ${part}`,
+    history: (count) => `history (${count} ${count === 1 ? 'revision' : 'revisions'})`,
+    showDiff: 'show diff',
+    firstPublished: 'first published',
+    callouts: { note: 'note', tip: 'tip', warning: 'warning', danger: 'danger' },
+    copyCode: 'copy',
+    codeCopied: 'copied',
+    copyLink: 'Copy link to section',
+    linkCopied: 'Link copied',
+    footnotes: 'notes',
+    backToReference: (label) => `Back to reference ${label}`,
+  },
+};
+
+const fr: Messages = {
+  nav: {
+    home: 'accueil',
+    blog: 'blog',
+    footer: 'Construit avec React, Tailwind et un ciel nocturne WebGL pixelisé.',
+  },
+  notFound: {
+    title: 'Page introuvable',
+    description: 'Cette page n’existe pas.',
+    noSuchPage: (path) => `${path} : page introuvable.`,
+    back: '<- retour au blog',
+  },
+  blog: {
+    title: 'Blog',
+    description: 'Notes sur le logiciel, les systèmes, et tout ce qui survit au premier contact avec la réalité.',
+    pageOf: (page, pageCount) => `page ${page} sur ${pageCount}`,
+    pageTitle: (page) => `Blog (page ${page})`,
+    browseTags: 'parcourir par tag ->',
+    archive: 'archives ->',
+    searchLabel: 'Rechercher des articles',
+    searchPlaceholder: 'grep le blog...',
+    empty: 'Aucun article pour l’instant. Revenez bientôt.',
+    pageNotFound: (page) => `la page ${page} n’existe pas.`,
+    backToBlog: '<- retour au blog',
+    postCount: (count) => `${count} ${count <= 1 ? 'article' : 'articles'}`,
+  },
+  archive: {
+    title: 'Archives',
+    description: 'Tous les articles, par année et par mois.',
+    intro: 'Tout, par année et par mois.',
+  },
+  tags: {
+    title: 'Tags',
+    description: 'Tous les sujets abordés jusqu’ici, et leur fréquence.',
+    empty: 'Aucun tag pour l’instant.',
+    taggedPosts: (tag) => `Articles avec le tag « ${tag} ».`,
+    taggedCount: (count, tag) => `${count} ${count <= 1 ? 'article' : 'articles'} avec le tag « ${tag} ».`,
+    notFound: 'tag introuvable.',
+    allTags: '<- tous les tags',
+  },
+  series: {
+    parts: (count) => `Une série en ${count} ${count <= 1 ? 'partie' : 'parties'}.`,
+    readingOrder: (count) => `Une série en ${count} ${count <= 1 ? 'partie' : 'parties'}, dans l’ordre de lecture.`,
+    notFound: 'série introuvable.',
+  },
+  pagination: {
+    label: 'Pages du blog',
+    newer: '<- plus récents',
+    older: 'plus anciens ->',
+    page: (page) => `Page ${page}`,
+  },
+  search: {
+    indexing: 'indexation',
+    error: 'impossible de charger l’index de recherche.',
+    noMatches: (query) => `Aucun article ne correspond à « ${query} ».`,
+    results: (count) => `${count} ${count <= 1 ? 'résultat' : 'résultats'}`,
+  },
+  post: {
+    notFound: 'article introuvable.',
+    loadError: 'impossible de charger cet article. Vérifiez votre connexion et rechargez.',
+    loading: 'chargement',
+    updated: 'mis à jour le',
+    words: (count) => `${count.toLocaleString('fr')} ${count <= 1 ? 'mot' : 'mots'}`,
+    minutes: (count) => `${count} min de lecture`,
+    translations: 'aussi en',
+    contents: 'sommaire',
+    tableOfContents: 'Table des matières',
+    morePosts: 'Autres articles',
+    older: '<- plus ancien',
+    newer: 'plus récent ->',
+    related: 'Articles liés',
+    series: 'série',
+    seriesPart: (part, count) => `partie ${part} sur ${count}`,
+    partLink: (part) => `partie ${part}`,
+    history: (count) => `historique (${count} ${count <= 1 ? 'révision' : 'révisions'})`,
+    showDiff: 'voir le diff',
+    firstPublished: 'première publication',
+    callouts: { note: 'remarque', tip: 'astuce', warning: 'attention', danger: 'danger' },
+    copyCode: 'copier',
+    codeCopied: 'copié',
+    copyLink: 'Copier le lien de la section',
+    linkCopied: 'Lien copié',
+    footnotes: 'notes',
+    backToReference: (label) => `Retour à la référence ${label}`,
+  },
+};
+
+// Arrows are written as in English; `<` and `>` are mirrored in right-to-left text.
+const ar: Messages = {
+  nav: {
+    home: 'الرئيسية',
+    blog: 'المدونة',
+    footer: 'مبني باستخدام React وTailwind وسماء ليلية WebGL بالبكسل.',
+  },
+  notFound: {
+    title: 'الصفحة غير موجودة',
+    description: 'هذه الصفحة غير موجودة.',
+    noSuchPage: (path) => `${path}: الصفحة غير موجودة.`,
+    back: '<- العودة إلى المدونة',
+  },
+  blog: {
+    title: 'المدونة',
+    description: 'ملاحظات عن البرمجيات والأنظمة، وكل ما ينجو من أول احتكاك بالواقع.',
+    pageOf: (page, pageCount) => `الصفحة ${page} من ${pageCount}`,
+    pageTitle: (page) => `المدونة (الصفحة ${page})`,
+    browseTags: 'تصفح حسب الوسم ->',
+    archive: 'الأرشيف ->',
+    searchLabel: 'البحث في المقالات',
+    searchPlaceholder: 'ابحث في المدونة...',
+    empty: 'لا توجد مقالات بعد. عد قريبًا.',
+    pageNotFound: (page) => `الصفحة ${page} غير موجودة.`,
+    backToBlog: '<- العودة إلى المدونة',
+    postCount: (count) => `${count} ${count === 1 ? 'مقال' : 'مقالات'}`,
+  },
+  archive: {
+    title: 'الأرشيف',
+    description: 'كل المقالات، حسب السنة والشهر.',
+    intro: 'كل شيء، حسب السنة والشهر.',
+  },
+  tags: {
+    title: 'الوسوم',
+    description: 'كل المواضيع التي كُتب عنها حتى الآن، وعدد مرات تناولها.',
+    empty: 'لا توجد وسوم بعد.',
+    taggedPosts: (tag) => `مقالات موسومة بـ«${tag}».`,
+    taggedCount: (count, tag) => `${count} ${count === 1 ? 'مقال موسوم' : 'مقالات موسومة'} بـ«${tag}».`,
+    notFound: 'الوسم غير موجود.',
+    allTags: '<- كل الوسوم',
+  },
+  series: {
+    parts: (count) => `سلسلة من ${count} ${count === 1 ? 'جزء' : 'أجزاء'}.`,
+    readingOrder: (count) => `سلسلة من ${count} ${count === 1 ? 'جزء' : 'أجزاء'}، بترتيب القراءة.`,
+    notFound: 'السلسلة غير موجودة.',
+  },
+  pagination: {
+    label: 'صفحات المدونة',
+    newer: '<- الأحدث',
+    older: 'الأقدم ->',
+    page: (page) => `الصفحة ${page}`,
+  },
+  search: {
+    indexing: 'جارٍ الفهرسة',
+    error: 'تعذر تحميل فهرس البحث.',
+    noMatches: (query) => `لا توجد مقالات تطابق «${query}».`,
+    results: (count) => `${count} ${count === 1 ? 'نتيجة' : 'نتائج'}`,
+  },
+  post: {
+    notFound: 'المقال غير موجود.',
+    loadError: 'تعذر تحميل هذا المقال. تحقق من اتصالك وأعد التحميل.',
+    loading: 'جارٍ التحميل',
+    updated: 'حُدّث في',
+    words: (count) => `${count.toLocaleString('ar')} ${count === 1 ? 'كلمة' : 'كلمات'}`,
+    minutes: (count) => `${count} د للقراءة`,
+    translations: 'متوفر أيضًا بـ',
+    contents: 'المحتويات',
+    tableOfContents: 'جدول المحتويات',
+    morePosts: 'مقالات أخرى',
+    older: '<- الأقدم',
+    newer: 'الأحدث ->',
+    related: 'مقالات ذات صلة',
+    series: 'سلسلة',
+    seriesPart: (part, count) => `الجزء ${part} من ${count}`,
+    partLink: (part) => `الجزء ${part}`,
+    history: (count) => `السجل (${count} ${count === 1 ? 'مراجعة' : 'مراجعات'})`,
+    showDiff: 'عرض الفروق',
+    firstPublished: 'أول نشر',
+    callouts: { note: 'ملاحظة', tip: 'نصيحة', warning: 'تحذير', danger: 'خطر' },
+    copyCode: 'نسخ',
+    codeCopied: 'تم النسخ',
+    copyLink: 'نسخ رابط القسم',
+    linkCopied: 'تم نسخ الرابط',
+    footnotes: 'حواشٍ',
+    backToReference: (label) => `العودة إلى الإحالة ${label}`,
+  },
+};
+
+export const MESSAGES: Record<Locale, Messages> = { en, fr, ar };
@@ -0,0 +1,37 @@
+/**
+ * Responsive images for post bodies and covers. Local images are resized at
+ * build time (plugins/images.js) into AVIF and WebP variants; pages render
+ * them with `<ResponsiveImage>` (src/components/ResponsiveImage.tsx).
+ */
+
+/** Variant widths in pixels; images are never scaled up past their own width. */
+export const IMAGE_WIDTHS = [480, 800, 1200, 1600];
+
+export const IMAGE_FORMATS = ['avif', 'webp'] as const;
+export type ImageFormat = (typeof IMAGE_FORMATS)[number];
+
+export interface ImageVariant {
+  /** Site path, e.g. `/assets/images/diagram-3f2a9c1d-800.webp`. */
+  src: string;
+  width: number;
+}
+
+export interface ResponsiveImageData {
+  /** Intrinsic size of the original, so the browser reserves space before it loads. */
+  width: number;
+  height: number;
+  /** Narrowest first. */
+  variants: Record<ImageFormat, ImageVariant[]>;
+  /** Tiny blurred data URL shown while loading; omitted for transparent images. */
+  placeholder?: string;
+}
+
+export function srcSetOf(variants: ImageVariant[]): string {
+  return variants.map((variant) => `${variant.src} ${variant.width}w`).join(', ');
+}
+
+/** The widest variant, as the `src` fallback for browsers without `srcset`. */
+export function fallbackSrc(image: ResponsiveImageData): string {
+  const variants = image.variants.webp;
+  return variants[variants.length - 1].src;
+}
@@ -0,0 +1,11 @@
+/**
+ * Social card images, one per post, rendered at build time by
+ * plugins/vite-plugin-og-images.js and referenced from each post's `og:image`.
+ */
+
+export const OG_IMAGE_WIDTH = 1200;
+export const OG_IMAGE_HEIGHT = 630;
+
+export function ogImagePath(slug: string): string {
+  return `/og/${slug}.png`;
+}
@@ -0,0 +1,51 @@
+/**
+ * Previous/next and related-post links, computed once at build time by
+ * plugins/vite-plugin-post-manifest.js so the browser only looks them up.
+ * Links stay within a post's language.
+ */
+
+import type { Locale } from './i18n';
+
+export interface PostLinks {
+  /** The next older post. */
+  previous: string | null;
+  /** The next newer post. */
+  next: string | null;
+  /** Best first: most shared tags, then most recent. */
+  related: string[];
+}
+
+interface LinkablePost {
+  slug: string;
+  lang: Locale;
+  date: string;
+  tags: string[];
+}
+
+export const RELATED_POSTS_LIMIT = 3;
+
+/** `posts` must be sorted newest first, as the manifest lists them. */
+export function buildPostLinks(posts: LinkablePost[]): Record<string, PostLinks> {
+  const links: Record<string, PostLinks> = {};
+
+  for (const post of posts) {
+    const siblings = posts.filter((other) => other.lang === post.lang);
+    const index = siblings.indexOf(post);
+    const tags = new Set(post.tags);
+    const related = siblings
+      .filter((other) => other.slug !== post.slug)
+      .map((other) => ({ other, shared: other.tags.filter((tag) => tags.has(tag)).length }))
+      .filter(({ shared }) => shared > 0)
+      .sort((a, b) => b.shared - a.shared || Date.parse(b.other.date) - Date.parse(a.other.date))
+      .slice(0, RELATED_POSTS_LIMIT)
+      .map(({ other }) => other.slug);
+
+    links[post.slug] = {
+      previous: siblings[index + 1]?.slug ?? null,
+      next: siblings[index - 1]?.slug ?? null,
+      related,
+    };
+  }
+
+  return links;
+}
@@ -1,54 +1,338 @@
 import type { ComponentType } from 'react';
+import { posts as manifest, links, redirects, series, translations } from 'virtual:post-manifest';
+import { getPostStatus, normalizeTag } from './frontmatter';
+import type { Frontmatter, PostStatus } from './frontmatter';
+import type { ResponsiveImageData } from './images';
+import { DEFAULT_LOCALE, localePrefix } from './i18n';
+import type { Locale } from './i18n';
+import type { PostRevision } from './revisions';
+import type { TocEntry } from './toc';
+import { BLOG_PAGE_SIZE, postPath } from './site';
 
-export interface PostMeta {
-  title: string;
-  date: string;
-  description: string;
-  tags: string[];
+export interface PostMeta extends Omit<Frontmatter, 'cover'> {
+  cover: ResponsiveImageData | undefined;
   slug: string;
+  /** Path relative to src/content/blog, e.g. `hello-world.mdx` or `bonjour/index.md`. */
+  source: string;
+  status: PostStatus;
+  wordCount: number;
+  /** The frontmatter override when set, otherwise the build-time estimate. */
+  readingMinutes: number;
+  /** The frontmatter `updated` when set, otherwise the latest git revision after `date`. */
+  updated: string | undefined;
 }
 
-interface PostModule {
+interface PostBodyModule {
   default: ComponentType;
-  frontmatter: {
-    title: string;
-    date: string;
-    description: string;
-    tags?: string[];
-  };
+  tableOfContents: TocEntry[];
+  history: PostRevision[];
+}
+
+export interface PostBody {
+  Component: ComponentType;
+  tableOfContents: TocEntry[];
+  /** Newest first; see src/lib/revisions.ts. */
+  history: PostRevision[];
+}
+
+export interface PostNeighbours {
+  /** The next older post. */
+  previous: PostMeta | undefined;
+  /** The next newer post. */
+  next: PostMeta | undefined;
+  related: PostMeta[];
 }
 
-const modules = import.meta.glob<PostModule>('../content/blog/*.mdx', {
-  eager: true,
-});
+// Metadata for every post comes from one build-time manifest
+// (plugins/vite-plugin-post-manifest.js), so listing posts is cheap and each
+// compiled body is its own lazy chunk. Frontmatter in it is already validated
+// and normalized; production builds leave drafts and scheduled posts out.
+// A post is a single `.mdx`/`.md` file or a folder with an `index.mdx`/`index.md`.
+const bodyModules = import.meta.glob<PostBodyModule>([
+  '../content/blog/*.{mdx,md}',
+  '../content/blog/*/index.{mdx,md}',
+]);
 
-function deriveSlug(path: string): string {
-  const filename = path.split('/').pop() ?? '';
-  return filename.replace(/\.mdx$/, '');
+const posts: PostMeta[] = manifest
+  .map((post) => ({ ...post, status: getPostStatus(post) }))
+  .filter((post) => import.meta.env.DEV || post.status === 'published');
+
+const bodyLoaders = new Map(
+  manifest.flatMap(({ slug, source }) => {
+    const load = bodyModules[`../content/blog/${source}`];
+    return load ? [[slug, load] as const] : [];
+  }),
+);
+
+/** Formats a normalized ISO date for display, e.g. `2025-03-14`. */
+export function formatPostDate(date: string): string {
+  return date.slice(0, 10);
 }
 
+export { postPath };
+
+/** Newest first. Drafts and scheduled posts are only included in `vite dev`. */
 export function getAllPosts(): PostMeta[] {
-  return Object.entries(modules)
-    .map(([path, mod]) => ({
-      ...mod.frontmatter,
-      tags: mod.frontmatter.tags ?? [],
-      slug: deriveSlug(path),
-    }))
-    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-}
-
-export function getPostBySlug(slug: string) {
-  const entry = Object.entries(modules).find(
-    ([path]) => deriveSlug(path) === slug,
+  return posts;
+}
+
+export function getPostBySlug(slug: string): PostMeta | undefined {
+  return posts.find((post) => post.slug === slug);
+}
+
+/** Newest first, only the posts written in `locale`. */
+export function getPostsByLocale(locale: Locale): PostMeta[] {
+  return posts.filter((post) => post.lang === locale);
+}
+
+/** Path of a post by slug, under its language's prefix. */
+export function getPostPath(slug: string): string {
+  return postPath(slug, getPostBySlug(slug)?.lang);
+}
+
+/** Every version of a post, itself included, in `LOCALES` order; empty without a `translationKey`. */
+export function getTranslations(slug: string): PostMeta[] {
+  const key = getPostBySlug(slug)?.translationKey;
+  if (key === undefined || !Object.prototype.hasOwnProperty.call(translations, key)) return [];
+  return translations[key].flatMap((other) => getPostBySlug(other) ?? []);
+}
+
+export interface PostRedirect {
+  from: string;
+  to: string;
+}
+
+/** Where an old post URL (a frontmatter alias) now lives, ignoring a trailing slash. */
+export function getRedirectTarget(pathname: string): string | undefined {
+  const normalized = pathname.length > 1 ? pathname.replace(/\/+$/, '') : pathname;
+  if (!Object.prototype.hasOwnProperty.call(redirects, normalized)) return undefined;
+  const post = getPostBySlug(redirects[normalized]);
+  return post && postPath(post.slug, post.lang);
+}
+
+export function getAllRedirects(): PostRedirect[] {
+  return Object.keys(redirects).flatMap((from) => {
+    const to = getRedirectTarget(from);
+    return to ? [{ from, to }] : [];
+  });
+}
+
+/** Chronological neighbours and tag-related posts, as computed for the manifest. */
+export function getPostNeighbours(slug: string): PostNeighbours {
+  const postLinks = links[slug];
+  const lookup = (other: string | null) => (other ? getPostBySlug(other) : undefined);
+  return {
+    previous: lookup(postLinks?.previous ?? null),
+    next: lookup(postLinks?.next ?? null),
+    related: (postLinks?.related ?? []).flatMap((other) => lookup(other) ?? []),
+  };
+}
+
+// ============================================================================
+// BODIES
+// ============================================================================
+
+const loadedBodies = new Map<string, PostBody>();
+const pendingBodies = new Map<string, Promise<PostBody>>();
+
+/** Imports a post's compiled body chunk; concurrent and repeated calls share one request. */
+export function loadPostBody(slug: string): Promise<PostBody> {
+  const pending = pendingBodies.get(slug);
+  if (pending) return pending;
+
+  const load = bodyLoaders.get(slug);
+  if (!load || !getPostBySlug(slug)) {
+    return Promise.reject(new Error(`Unknown post: ${slug}`));
+  }
+
+  const promise = load().then(
+    (mod) => {
+      const body = { Component: mod.default, tableOfContents: mod.tableOfContents, history: mod.history };
+      loadedBodies.set(slug, body);
+      return body;
+    },
+    (error: unknown) => {
+      // Let a later attempt retry, e.g. after a flaky connection.
+      pendingBodies.delete(slug);
+      throw error;
+    },
   );
-  if (!entry) return undefined;
-  const [, mod] = entry;
+  pendingBodies.set(slug, promise);
+  return promise;
+}
+
+/** The body if it has already loaded, for rendering without a loading flash. */
+export function peekPostBody(slug: string): PostBody | undefined {
+  return loadedBodies.get(slug);
+}
+
+/** Warms the body chunk ahead of navigation, e.g. when a post link is hovered. */
+export function prefetchPost(slug: string): void {
+  if (!getPostBySlug(slug)) return;
+  loadPostBody(slug).catch(() => undefined);
+}
+
+// ============================================================================
+// TAGS
+// ============================================================================
+
+export interface TagSummary {
+  tag: string;
+  slug: string;
+  count: number;
+}
+
+/** URL segment for a (normalized) tag: `web gl` -> `web-gl`. */
+export function tagSlug(tag: string): string {
+  return tag.replace(/ /g, '-');
+}
+
+export function tagPath(tag: string): string {
+  return `/blog/tags/${encodeURIComponent(tagSlug(tag))}`;
+}
+
+/** Every tag in use, alphabetically, with the number of posts carrying it. */
+export function getAllTags(): TagSummary[] {
+  const counts = new Map<string, number>();
+  for (const post of posts) {
+    for (const tag of post.tags) {
+      counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+  }
+  return [...counts]
+    .map(([tag, count]) => ({ tag, slug: tagSlug(tag), count }))
+    .sort((a, b) => a.tag.localeCompare(b.tag));
+}
+
+/** Looks a tag up by URL segment, forgiving hand-typed casing like `/blog/tags/TypeScript`. */
+export function getTagBySlug(slug: string): TagSummary | undefined {
+  const normalized = tagSlug(normalizeTag(slug));
+  return getAllTags().find((summary) => summary.slug === normalized);
+}
+
+export function getPostsByTag(slug: string): PostMeta[] {
+  return posts.filter((post) => post.tags.some((tag) => tagSlug(tag) === slug));
+}
+
+// ============================================================================
+// SERIES
+// ============================================================================
+
+export interface SeriesPart {
+  /** From 1; drafts and scheduled parts keep their numbers, so these can skip. */
+  part: number;
+  post: PostMeta;
+}
+
+export interface SeriesSummary {
+  id: string;
+  /** Visible parts in reading order. */
+  parts: SeriesPart[];
+  /** Every part, drafts and scheduled ones included. */
+  partCount: number;
+}
+
+export function seriesPath(id: string): string {
+  return `/blog/series/${id}`;
+}
+
+/** Every series with at least one visible part, by id. */
+export function getAllSeries(): SeriesSummary[] {
+  return Object.keys(series)
+    .sort()
+    .flatMap((id) => getSeries(id) ?? []);
+}
+
+/**
+ * A series with its visible parts in order. Gaps and duplicate `seriesOrder`
+ * values are rejected when the manifest is built, counting unpublished parts,
+ * so part numbers follow `seriesOrder` and skip the parts not shown.
+ */
+export function getSeries(id: string): SeriesSummary | undefined {
+  if (!Object.prototype.hasOwnProperty.call(series, id)) return undefined;
+  const parts = series[id].parts.flatMap(({ slug, part }) => {
+    const post = getPostBySlug(slug);
+    return post ? [{ part, post }] : [];
+  });
+  return parts.length > 0 ? { id, parts, partCount: series[id].partCount } : undefined;
+}
+
+// ============================================================================
+// PAGINATION & ARCHIVE
+// ============================================================================
+
+export interface PostsPage {
+  posts: PostMeta[];
+  page: number;
+  pageCount: number;
+}
+
+export interface ArchiveMonth {
+  /** 1-12. */
+  month: number;
+  label: string;
+  posts: PostMeta[];
+}
+
+export interface ArchiveYear {
+  year: number;
+  count: number;
+  months: ArchiveMonth[];
+}
+
+/** Page 1 is the blog index itself; `/blog/page/1` only exists as a redirect. */
+export function blogPagePath(page: number, locale: Locale = DEFAULT_LOCALE): string {
+  const index = `${localePrefix(locale)}/blog`;
+  return page <= 1 ? index : `${index}/page/${page}`;
+}
+
+/** Pages in the `locale` listing; each language is paginated on its own. */
+export function getPageCount(locale: Locale = DEFAULT_LOCALE, pageSize: number = BLOG_PAGE_SIZE): number {
+  return Math.max(1, Math.ceil(getPostsByLocale(locale).length / pageSize));
+}
+
+/** One page of the newest-first `locale` listing, or `undefined` when `page` is out of range. */
+export function getPostsPage(
+  page: number,
+  locale: Locale = DEFAULT_LOCALE,
+  pageSize: number = BLOG_PAGE_SIZE,
+): PostsPage | undefined {
+  const pageCount = getPageCount(locale, pageSize);
+  if (!Number.isInteger(page) || page < 1 || page > pageCount) return undefined;
   return {
-    meta: {
-      ...mod.frontmatter,
-      tags: mod.frontmatter.tags ?? [],
-      slug,
-    } satisfies PostMeta,
-    Component: mod.default,
+    posts: getPostsByLocale(locale).slice((page - 1) * pageSize, page * pageSize),
+    page,
+    pageCount,
   };
 }
+
+/** Posts grouped by year, then month, newest first. Grouping uses UTC like the stored dates. */
+export function getArchive(): ArchiveYear[] {
+  const years: ArchiveYear[] = [];
+
+  for (const post of posts) {
+    const date = new Date(post.date);
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth() + 1;
+
+    let yearGroup = years[years.length - 1];
+    if (yearGroup?.year !== year) {
+      yearGroup = { year, count: 0, months: [] };
+      years.push(yearGroup);
+    }
+    let monthGroup = yearGroup.months[yearGroup.months.length - 1];
+    if (monthGroup?.month !== month) {
+      monthGroup = {
+        month,
+        label: date.toLocaleString('en', { month: 'long', timeZone: 'UTC' }),
+        posts: [],
+      };
+      yearGroup.months.push(monthGroup);
+    }
+
+    monthGroup.posts.push(post);
+    yearGroup.count += 1;
+  }
+
+  return years;
+}
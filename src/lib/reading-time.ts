@@ -0,0 +1,23 @@
+/**
+ * Reading-time estimate for posts, computed at build time by
+ * plugins/remark-reading-time.js. Code is read far slower than prose and is
+ * scanned line by line, so it is timed in lines rather than words.
+ */
+
+export interface ReadingTime {
+  /** Prose words plus the words inside code blocks. */
+  wordCount: number;
+  minutes: number;
+}
+
+export const PROSE_WORDS_PER_MINUTE = 230;
+export const CODE_LINES_PER_MINUTE = 20;
+
+export function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+export function estimateReadingMinutes(proseWords: number, codeLines: number): number {
+  const minutes = proseWords / PROSE_WORDS_PER_MINUTE + codeLines / CODE_LINES_PER_MINUTE;
+  return Math.max(1, Math.round(minutes));
+}
@@ -0,0 +1,66 @@
+/**
+ * Slug uniqueness and alias redirects, checked once at build time by
+ * plugins/vite-plugin-post-manifest.js. Two posts claiming the same URL, as a
+ * slug or as an alias, or a post claiming one of the blog's own pages, fail
+ * the build.
+ */
+
+import { DEFAULT_LOCALE, LOCALES } from './i18n';
+import type { Locale } from './i18n';
+import { postPath } from './site';
+
+export class SlugError extends Error {
+  readonly slugs: string[];
+
+  constructor(slugs: string[], reason: string) {
+    super(reason);
+    this.name = 'SlugError';
+    this.slugs = slugs;
+  }
+}
+
+// Pages under `/blog/` (src/App.tsx), whose routes match before a post's.
+const RESERVED_SEGMENTS = ['archive', 'tags', 'series', 'page'];
+const RESERVED_PATH_PATTERN = new RegExp(
+  `^(?:/(?:${LOCALES.join('|')}))?/blog/(?:${RESERVED_SEGMENTS.join('|')})(?:/|$)`,
+);
+
+interface RoutablePost {
+  slug: string;
+  lang: Locale;
+  aliases: string[];
+}
+
+/** Alias path -> slug of the post it redirects to. Throws a `SlugError` on any clash. */
+export function buildRedirects(posts: RoutablePost[]): Record<string, string> {
+  const owners = new Map<string, string>();
+  const claim = (pathname: string, slug: string, kind: string) => {
+    const owner = owners.get(pathname);
+    if (owner !== undefined) {
+      throw new SlugError([owner, slug], `Duplicate ${kind}: ${pathname} is claimed by both ${owner} and ${slug}`);
+    }
+    owners.set(pathname, slug);
+  };
+
+  for (const post of posts) {
+    const reserved = [postPath(post.slug), ...post.aliases].find((pathname) => RESERVED_PATH_PATTERN.test(pathname));
+    if (reserved !== undefined) {
+      throw new SlugError([post.slug], `Reserved path: ${reserved} of ${post.slug} is one of the blog's own pages`);
+    }
+  }
+
+  // Slugs key the post bodies, so they stay unique across languages too.
+  for (const post of posts) claim(postPath(post.slug), post.slug, 'slug');
+  for (const post of posts) {
+    if (post.lang !== DEFAULT_LOCALE) claim(postPath(post.slug, post.lang), post.slug, 'slug');
+  }
+
+  const redirects: Record<string, string> = {};
+  for (const post of posts) {
+    for (const alias of post.aliases) {
+      claim(alias, post.slug, 'alias');
+      redirects[alias] = post.slug;
+    }
+  }
+  return redirects;
+}
@@ -0,0 +1,38 @@
+/**
+ * A post's revision history, read from git at build time by
+ * plugins/remark-git-history.js and shipped with the post's body.
+ */
+
+export interface PostRevision {
+  /** Abbreviated commit hash. */
+  hash: string;
+  /** ISO 8601 commit date. */
+  date: string;
+  message: string;
+  /** Unified diff hunks for the post's file; `null` for the commit that added it. */
+  diff: string | null;
+}
+
+export type DiffLineKind = 'added' | 'removed' | 'hunk' | 'context';
+
+export function diffLineKind(line: string): DiffLineKind {
+  if (line.startsWith('@@')) return 'hunk';
+  if (line.startsWith('+')) return 'added';
+  if (line.startsWith('-')) return 'removed';
+  return 'context';
+}
+
+function utcDay(date: string): string {
+  return new Date(date).toISOString().slice(0, 10);
+}
+
+/**
+ * Date of the latest revision made on a later UTC day than the post's own
+ * `date`, or `undefined` when it has not changed since. `history` is newest
+ * first; the commit that added the file is not a revision.
+ */
+export function lastRevisedDate(date: string, history: PostRevision[]): string | undefined {
+  const latest = history.find((revision) => revision.diff !== null);
+  if (!latest || utcDay(latest.date) <= utcDay(date)) return undefined;
+  return new Date(latest.date).toISOString();
+}
@@ -0,0 +1,41 @@
+import { matchRoutes } from 'react-router-dom';
+import type { Params, RouteObject } from 'react-router-dom';
+
+export interface PrerenderPage {
+  path: string;
+  /** ISO date of the last change, for the sitemap's `lastmod`. */
+  lastModified?: string;
+}
+
+/**
+ * What a route in `App.tsx` can attach as its `handle` so it gets prerendered
+ * (plugins/vite-plugin-prerender.js) and hydrates with the same data.
+ */
+export interface RouteHandle {
+  /** Concrete pages for a dynamic path such as `/blog/:slug`. */
+  prerender?: () => PrerenderPage[];
+  /** Data that must be loaded before the route renders on the server or hydrates. */
+  preload?: (params: Params) => Promise<unknown>;
+}
+
+function handleOf(route: RouteObject): RouteHandle | undefined {
+  return route.handle as RouteHandle | undefined;
+}
+
+/**
+ * Every page to prerender, which is also what the sitemap lists: static paths
+ * as-is, dynamic ones as their handle lists them.
+ */
+export function getPrerenderPages(routes: RouteObject[]): PrerenderPage[] {
+  return routes.flatMap((route) => {
+    const handle = handleOf(route);
+    if (handle?.prerender) return handle.prerender();
+    return route.path && !/[:*]/.test(route.path) ? [{ path: route.path }] : [];
+  });
+}
+
+/** Runs the `preload` of every route matching `pathname`. */
+export async function preloadRoute(routes: RouteObject[], pathname: string): Promise<void> {
+  const matches = matchRoutes(routes, pathname) ?? [];
+  await Promise.all(matches.map(({ route, params }) => handleOf(route)?.preload?.(params)));
+}
@@ -0,0 +1,178 @@
+/**
+ * Full-text search over published posts.
+ * The index is built at build time by plugins/vite-plugin-search-index.js and
+ * shipped as its own lazily imported chunk, so search works on the static
+ * deploy (and offline) without any search service.
+ */
+
+export interface SearchDoc {
+  slug: string;
+  title: string;
+  description: string;
+  tags: string[];
+  date: string;
+  /** Body as plain text, whitespace-collapsed; used for snippets. */
+  text: string;
+}
+
+export interface SearchIndex {
+  docs: SearchDoc[];
+  /** term -> flat `[docIndex, weight, docIndex, weight, ...]` postings. */
+  terms: Record<string, number[]>;
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchResult {
+  doc: SearchDoc;
+  score: number;
+  title: HighlightSegment[];
+  snippet: HighlightSegment[];
+}
+
+/** How much one occurrence of a term counts, per field. */
+export const FIELD_WEIGHTS = {
+  title: 10,
+  tags: 6,
+  description: 3,
+  text: 1,
+} as const;
+
+const PREFIX_MATCH_FACTOR = 0.5;
+const SNIPPET_RADIUS = 80;
+
+function foldCase(value: string): string {
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+}
+
+/** Lowercase, accent-free word tokens: `Réseau WebGL-2` -> `['reseau', 'webgl', '2']`. */
+export function tokenize(value: string): string[] {
+  return foldCase(value)
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+/** Builds the compact inverted index; runs at build time only. */
+export function buildSearchIndex(docs: SearchDoc[]): SearchIndex {
+  const terms: Record<string, number[]> = {};
+
+  docs.forEach((doc, docIndex) => {
+    const weights = new Map<string, number>();
+    const fields: Array<[keyof typeof FIELD_WEIGHTS, string]> = [
+      ['title', doc.title],
+      ['tags', doc.tags.join(' ')],
+      ['description', doc.description],
+      ['text', doc.text],
+    ];
+    for (const [field, value] of fields) {
+      for (const term of tokenize(value)) {
+        weights.set(term, (weights.get(term) ?? 0) + FIELD_WEIGHTS[field]);
+      }
+    }
+    for (const [term, weight] of weights) {
+      (terms[term] ??= []).push(docIndex, weight);
+    }
+  });
+
+  return { docs, terms };
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * `[start, end)` ranges in `value` of every word starting with one of
+ * `tokens`. Matching runs on the text folded like `tokenize` does, so
+ * `reseau` finds `Réseau`; ranges point back into the original text.
+ */
+function matchRanges(value: string, tokens: string[]): Array<[number, number]> {
+  if (tokens.length === 0) return [];
+
+  // offsets[i] is where the character folded into position i starts in `value`.
+  let folded = '';
+  const offsets: number[] = [];
+  for (let index = 0; index < value.length; ) {
+    const character = String.fromCodePoint(value.codePointAt(index) ?? 0);
+    const foldedCharacter = foldCase(character);
+    folded += foldedCharacter;
+    for (let i = 0; i < foldedCharacter.length; i += 1) offsets.push(index);
+    index += character.length;
+  }
+  offsets.push(value.length);
+
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${tokens.map(escapeRegExp).join('|')})[\\p{L}\\p{N}]*`, 'gu');
+  return [...folded.matchAll(pattern)].map((match) => {
+    const start = match.index ?? 0;
+    return [offsets[start], offsets[start + match[0].length]];
+  });
+}
+
+/** Splits `value` into plain and matching runs for every word starting with one of `tokens`. */
+export function highlight(value: string, tokens: string[]): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  let cursor = 0;
+  for (const [start, end] of matchRanges(value, tokens)) {
+    if (start > cursor) segments.push({ text: value.slice(cursor, start), match: false });
+    segments.push({ text: value.slice(start, end), match: true });
+    cursor = end;
+  }
+  if (cursor < value.length || segments.length === 0) segments.push({ text: value.slice(cursor), match: false });
+  return segments;
+}
+
+function snippet(doc: SearchDoc, tokens: string[]): HighlightSegment[] {
+  const [firstMatch] = matchRanges(doc.text, tokens);
+  if (!firstMatch) return highlight(doc.description, tokens);
+
+  const hit = firstMatch[0];
+  const start = Math.max(0, hit - SNIPPET_RADIUS);
+  const end = Math.min(doc.text.length, hit + SNIPPET_RADIUS);
+  const excerpt = `${start > 0 ? '…' : ''}${doc.text.slice(start, end).trim()}${end < doc.text.length ? '…' : ''}`;
+  return highlight(excerpt, tokens);
+}
+
+/**
+ * Ranks documents matching every query word. Whole-word matches score fully;
+ * prefix matches (`web` for `webgl`) score half, so results narrow as you type.
+ */
+export function searchPosts(index: SearchIndex, query: string): SearchResult[] {
+  const tokens = [...new Set(tokenize(query))];
+  if (tokens.length === 0) return [];
+
+  const allTerms = Object.keys(index.terms);
+  let scores: Map<number, number> | null = null;
+
+  for (const token of tokens) {
+    const tokenScores = new Map<number, number>();
+    for (const term of allTerms) {
+      if (!term.startsWith(token)) continue;
+      const factor = term === token ? 1 : PREFIX_MATCH_FACTOR;
+      const postings = index.terms[term];
+      for (let i = 0; i < postings.length; i += 2) {
+        const docIndex = postings[i];
+        tokenScores.set(docIndex, Math.max(tokenScores.get(docIndex) ?? 0, postings[i + 1] * factor));
+      }
+    }
+
+    const previous: Map<number, number> | null = scores;
+    scores = new Map();
+    for (const [docIndex, score] of tokenScores) {
+      if (previous && !previous.has(docIndex)) continue;
+      scores.set(docIndex, (previous?.get(docIndex) ?? 0) + score);
+    }
+  }
+
+  return [...(scores ?? [])]
+    .map(([docIndex, score]) => {
+      const doc = index.docs[docIndex];
+      return { doc, score, title: highlight(doc.title, tokens), snippet: snippet(doc, tokens) };
+    })
+    .sort((a, b) => b.score - a.score || Date.parse(b.doc.date) - Date.parse(a.doc.date));
+}
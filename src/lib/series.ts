@@ -0,0 +1,66 @@
+/**
+ * Multi-part series, grouped and checked once at build time by
+ * plugins/vite-plugin-post-manifest.js. A series only ships when its parts
+ * count up from 1 with no gaps or repeats.
+ */
+
+export class SeriesError extends Error {
+  readonly series: string;
+  readonly slugs: string[];
+
+  constructor(series: string, slugs: string[], reason: string) {
+    super(`series "${series}": ${reason}`);
+    this.name = 'SeriesError';
+    this.series = series;
+    this.slugs = slugs;
+  }
+}
+
+interface SeriesPost {
+  slug: string;
+  series?: string;
+  seriesOrder?: number;
+}
+
+/** Series id -> part slugs in reading order. Throws a `SeriesError` on gaps or duplicate orders. */
+export function buildSeries(posts: SeriesPost[]): Record<string, string[]> {
+  const groups = new Map<string, SeriesPost[]>();
+  for (const post of posts) {
+    if (post.series === undefined) continue;
+    const group = groups.get(post.series) ?? [];
+    group.push(post);
+    groups.set(post.series, group);
+  }
+
+  const series: Record<string, string[]> = {};
+  for (const [id, parts] of groups) {
+    const byOrder = new Map<number, string[]>();
+    for (const part of parts) {
+      const order = part.seriesOrder ?? 0;
+      byOrder.set(order, [...(byOrder.get(order) ?? []), part.slug]);
+    }
+
+    for (const [order, slugs] of byOrder) {
+      if (slugs.length > 1) {
+        throw new SeriesError(id, slugs, `part ${order} is claimed by ${slugs.join(', ')}`);
+      }
+    }
+
+    for (let order = 1; order <= parts.length; order += 1) {
+      if (!byOrder.has(order)) {
+        const found = [...byOrder.keys()].sort((a, b) => a - b);
+        throw new SeriesError(
+          id,
+          parts.map((part) => part.slug),
+          `part ${order} is missing (found parts ${found.join(', ')})`,
+        );
+      }
+    }
+
+    series[id] = [...parts]
+      .sort((a, b) => (a.seriesOrder ?? 0) - (b.seriesOrder ?? 0))
+      .map((part) => part.slug);
+  }
+
+  return series;
+}
@@ -0,0 +1,25 @@
+/**
+ * Site-wide identity, shared by the app and the build-time plugins in plugins/.
+ */
+
+import { DEFAULT_LOCALE, MESSAGES, localePrefix } from './i18n';
+import type { Locale } from './i18n';
+
+export const SITE_URL = 'https://chiboub.tn';
+export const SITE_TITLE = 'chiboub.tn';
+export const SITE_AUTHOR = 'Mohamed Chiboub';
+export const SITE_LANGUAGE = 'en';
+export const SITE_DESCRIPTION =
+  'Mohamed Chiboub — Software engineer. Retro-styled personal site and blog.';
+export const BLOG_DESCRIPTION = MESSAGES[DEFAULT_LOCALE].blog.description;
+/** Posts per `/blog` listing page; later pages live at `/blog/page/:n`. */
+export const BLOG_PAGE_SIZE = 10;
+
+export function postPath(slug: string, lang: Locale = DEFAULT_LOCALE): string {
+  return `${localePrefix(lang)}/blog/${slug}`;
+}
+
+/** Absolute URL for a site path, e.g. `/blog/foo` -> `https://chiboub.tn/blog/foo`. */
+export function absoluteUrl(pathname: string): string {
+  return new URL(pathname, SITE_URL).href;
+}
@@ -0,0 +1,35 @@
+/**
+ * Table of contents for a post, built at build time by
+ * plugins/rehype-heading-ids.js from the headings it gives ids to.
+ */
+
+export interface TocHeading {
+  id: string;
+  text: string;
+  depth: number;
+}
+
+export interface TocEntry extends TocHeading {
+  children: TocEntry[];
+}
+
+/** Nests a flat, document-ordered heading list by depth; skipped levels nest under the nearest shallower heading. */
+export function buildTocTree(headings: TocHeading[]): TocEntry[] {
+  const root: TocEntry[] = [];
+  const stack: TocEntry[] = [];
+
+  for (const heading of headings) {
+    const entry: TocEntry = { ...heading, children: [] };
+    while (stack.length > 0 && stack[stack.length - 1].depth >= entry.depth) {
+      stack.pop();
+    }
+    (stack.length > 0 ? stack[stack.length - 1].children : root).push(entry);
+    stack.push(entry);
+  }
+
+  return root;
+}
+
+export function flattenToc(entries: TocEntry[]): TocEntry[] {
+  return entries.flatMap((entry) => [entry, ...flattenToc(entry.children)]);
+}
@@ -0,0 +1,56 @@
+/**
+ * Translated posts, grouped and checked once at build time by
+ * plugins/vite-plugin-post-manifest.js. Posts sharing a `translationKey` are
+ * versions of the same post; each language may appear only once per key.
+ */
+
+import { LOCALES } from './i18n';
+import type { Locale } from './i18n';
+
+export class TranslationError extends Error {
+  readonly translationKey: string;
+  readonly slugs: string[];
+
+  constructor(translationKey: string, slugs: string[], reason: string) {
+    super(`translation "${translationKey}": ${reason}`);
+    this.name = 'TranslationError';
+    this.translationKey = translationKey;
+    this.slugs = slugs;
+  }
+}
+
+interface TranslatablePost {
+  slug: string;
+  lang: Locale;
+  translationKey?: string;
+}
+
+/**
+ * Translation key -> slugs of its versions, in `LOCALES` order. Throws a
+ * `TranslationError` when two posts under one key share a language.
+ */
+export function buildTranslations(posts: TranslatablePost[]): Record<string, string[]> {
+  const groups = new Map<string, TranslatablePost[]>();
+  for (const post of posts) {
+    if (post.translationKey === undefined) continue;
+    const group = groups.get(post.translationKey) ?? [];
+    group.push(post);
+    groups.set(post.translationKey, group);
+  }
+
+  const translations: Record<string, string[]> = {};
+  for (const [key, versions] of groups) {
+    for (const lang of LOCALES) {
+      const slugs = versions.filter((version) => version.lang === lang).map((version) => version.slug);
+      if (slugs.length > 1) {
+        throw new TranslationError(key, slugs, `"${lang}" is claimed by ${slugs.join(', ')}`);
+      }
+    }
+
+    translations[key] = [...versions]
+      .sort((a, b) => LOCALES.indexOf(a.lang) - LOCALES.indexOf(b.lang))
+      .map((version) => version.slug);
+  }
+
+  return translations;
+}
@@ -0,0 +1,16 @@
+import { useSyncExternalStore } from 'react';
+
+const subscribe = () => () => {};
+
+/**
+ * `false` while rendering on the server and during hydration, `true` after.
+ * Lets a prerendered page hydrate with the server's markup before switching
+ * to anything that depends on the browser, like the URL's query string.
+ */
+export function useHydrated(): boolean {
+  return useSyncExternalStore(
+    subscribe,
+    () => true,
+    () => false,
+  );
+}
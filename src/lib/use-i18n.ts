@@ -0,0 +1,15 @@
+import { useLocation } from 'react-router-dom';
+import { LOCALE_INFO, MESSAGES, localeFromPath } from './i18n';
+import type { Locale, Messages } from './i18n';
+
+export interface I18n {
+  locale: Locale;
+  dir: 'ltr' | 'rtl';
+  messages: Messages;
+}
+
+/** The current page's language, from its URL prefix, with its UI strings. */
+export function useI18n(): I18n {
+  const locale = localeFromPath(useLocation().pathname);
+  return { locale, dir: LOCALE_INFO[locale].dir, messages: MESSAGES[locale] };
+}
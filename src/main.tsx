@@ -1,8 +1,10 @@
 import { StrictMode } from 'react';
-import { createRoot } from 'react-dom/client';
+import { createRoot, hydrateRoot } from 'react-dom/client';
 import { BrowserRouter } from 'react-router-dom';
+import 'katex/dist/katex.min.css';
 import './index.css';
-import App from './App';
+import App, { routes } from './App';
+import { preloadRoute } from './lib/routes';
 
 const rootElement = document.getElementById('root');
 
@@ -10,10 +12,20 @@ if (!rootElement) {
   throw new Error('Root element not found');
 }
 
-createRoot(rootElement).render(
+const app = (
   <StrictMode>
     <BrowserRouter>
       <App />
     </BrowserRouter>
   </StrictMode>
 );
+
+if (rootElement.hasChildNodes()) {
+  // Prerendered page: load what the server rendered with, then hydrate. If
+  // that fails, hydration falls back to a client render of the same route.
+  preloadRoute(routes, window.location.pathname)
+    .catch(() => undefined)
+    .then(() => hydrateRoot(rootElement, app));
+} else {
+  createRoot(rootElement).render(app);
+}
@@ -1,13 +1,14 @@
 declare module '*.mdx' {
   import type { ComponentType } from 'react';
 
-  export const frontmatter: {
-    title: string;
-    date: string;
-    description: string;
-    tags?: string[];
-  };
+  /** `null` for drafts and scheduled posts in production builds. */
+  export const frontmatter: import('./lib/frontmatter').Frontmatter | null;
+  export const readingTime: import('./lib/reading-time').ReadingTime;
+  export const tableOfContents: import('./lib/toc').TocEntry[];
+  /** Newest first; empty outside a git checkout. */
+  export const history: import('./lib/revisions').PostRevision[];
 
   const MDXComponent: ComponentType;
   export default MDXComponent;
 }
+
@@ -1,46 +1,110 @@
-import { Link } from 'react-router-dom';
-import { getAllPosts } from '../lib/posts';
+import { Link, Navigate, useLocation, useParams, useSearchParams } from 'react-router-dom';
+import { LOCALES } from '../lib/i18n';
+import { blogPagePath, getPostsByLocale, getPostsPage } from '../lib/posts';
+import { useHydrated } from '../lib/use-hydrated';
+import { useI18n } from '../lib/use-i18n';
+import Head from '../components/Head';
+import Pagination from '../components/Pagination';
+import PostCard from '../components/PostCard';
+import SearchResults from '../components/SearchResults';
+
+const indexLinkClass =
+  'whitespace-nowrap text-site-accent-dim transition-colors duration-100 hover:text-site-accent hover:no-underline';
 
 export default function Blog() {
-  const posts = getAllPosts();
+  const { page: pageParam } = useParams<{ page?: string }>();
+  const { locale, messages } = useI18n();
+  const { pathname } = useLocation();
+  const [searchParams, setSearchParams] = useSearchParams();
+  // The prerendered page has no query string; hydrate as the listing first.
+  const hydrated = useHydrated();
+  const query = hydrated ? searchParams.get('q') ?? '' : '';
+
+  const updateQuery = (value: string) => {
+    setSearchParams(value ? { q: value } : {}, { replace: true });
+  };
+
+  if (pageParam === '1') {
+    return <Navigate to={{ pathname: blogPagePath(1, locale), search: searchParams.toString() }} replace />;
+  }
+
+  const page = getPostsPage(pageParam === undefined ? 1 : Number(pageParam), locale);
+
+  if (!page) {
+    return (
+      <div className="w-full space-y-4">
+        <Head title={messages.notFound.title} description={messages.blog.pageNotFound(pageParam ?? '')} path={pathname} noindex />
+        <p className="text-base text-red-500">
+          {'>'} ERROR: {messages.blog.pageNotFound(pageParam ?? '')}
+        </p>
+        <Link to={blogPagePath(1, locale)} className="inline-block text-sm text-site-accent-dim transition-colors duration-100 hover:text-site-accent hover:no-underline">
+          {messages.blog.backToBlog}
+        </Link>
+      </div>
+    );
+  }
 
   return (
     <div className="mx-auto w-full max-w-5xl">
+      <Head
+        title={page.page > 1 ? messages.blog.pageTitle(page.page) : messages.blog.title}
+        description={messages.blog.description}
+        path={blogPagePath(page.page, locale)}
+        alternates={page.page > 1 ? undefined : LOCALES.map((other) => ({ locale: other, path: blogPagePath(1, other) }))}
+      />
       <h1 className="mb-2 text-[clamp(1.3rem,3vw,1.8rem)] font-bold text-site-accent">
-        Blog
+        {messages.blog.title}
+        {page.page > 1 && (
+          <span className="ms-3 text-sm font-normal text-site-text-dim">
+            {messages.blog.pageOf(page.page, page.pageCount)}
+          </span>
+        )}
       </h1>
       <p className="mb-6 max-w-4xl text-sm leading-7 text-site-text-dim sm:mb-8 sm:text-base sm:leading-8">
-        Notes on software, systems, and whatever else survives first contact with reality.
+        {messages.blog.description}{' '}
+        <Link to="/blog/tags" className={indexLinkClass}>
+          {messages.blog.browseTags}
+        </Link>{' '}
+        <Link to="/blog/archive" className={indexLinkClass}>
+          {messages.blog.archive}
+        </Link>
       </p>
 
-      {posts.length === 0 ? (
-        <p className="italic text-site-text-dim">No posts yet. Check back soon.</p>
+      <form role="search" className="mb-6 sm:mb-8" onSubmit={(event) => event.preventDefault()}>
+        <label
+          htmlFor="blog-search"
+          className="flex items-center gap-2 rounded-sm border border-site-surface-border bg-black/60 px-3 py-2 text-sm transition-colors duration-100 focus-within:border-site-accent sm:text-base"
+        >
+          <span aria-hidden="true" className="text-site-accent">{'>'}</span>
+          <span className="sr-only">{messages.blog.searchLabel}</span>
+          <input
+            id="blog-search"
+            type="search"
+            value={query}
+            onChange={(event) => updateQuery(event.target.value)}
+            placeholder={messages.blog.searchPlaceholder}
+            autoComplete="off"
+            spellCheck={false}
+            className="w-full bg-transparent text-site-text placeholder:text-site-text-dim focus:outline-none"
+          />
+        </label>
+      </form>
+
+      {query.trim() ? (
+        <SearchResults query={query} />
+      ) : getPostsByLocale(locale).length === 0 ? (
+        <p className="italic text-site-text-dim">{messages.blog.empty}</p>
       ) : (
-        <ul className="space-y-3 sm:space-y-4">
-          {posts.map((post) => (
-            <li key={post.slug}>
-              <Link
-                to={`/blog/${post.slug}`}
-                className="group block rounded-sm border border-site-surface-border bg-site-surface p-4 text-site-text transition-colors duration-100 hover:border-site-accent hover:no-underline sm:p-5 lg:p-6"
-              >
-                <span className="text-xs text-site-text-dim">{post.date}</span>
-                <h2 className="my-2 text-[1.02rem] font-semibold leading-6 text-site-text transition-colors duration-100 group-hover:text-site-accent sm:text-lg">
-                  {post.title}
-                </h2>
-                <p className="mb-2 text-sm leading-7 text-site-text-dim sm:text-base">
-                  {post.description}
-                </p>
-                <div className="flex flex-wrap gap-2">
-                  {post.tags.map((tag) => (
-                    <span key={tag} className="text-xs text-site-accent-dim">
-                      [{tag}]
-                    </span>
-                  ))}
-                </div>
-              </Link>
-            </li>
-          ))}
-        </ul>
+        <>
+          <ul className="space-y-3 sm:space-y-4">
+            {page.posts.map((post) => (
+              <li key={post.slug}>
+                <PostCard post={post} />
+              </li>
+            ))}
+          </ul>
+          <Pagination page={page.page} pageCount={page.pageCount} />
+        </>
       )}
     </div>
   );
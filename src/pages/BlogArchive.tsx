@@ -0,0 +1,67 @@
+import { Link } from 'react-router-dom';
+import { formatPostDate, getArchive } from '../lib/posts';
+import { useI18n } from '../lib/use-i18n';
+import Head from '../components/Head';
+import PostLink from '../components/PostLink';
+
+const backLinkClass =
+  'inline-block text-sm text-site-accent-dim transition-colors duration-100 hover:text-site-accent hover:no-underline';
+
+export default function BlogArchive() {
+  const archive = getArchive();
+  const { messages } = useI18n();
+
+  return (
+    <div className="mx-auto w-full max-w-5xl">
+      <Head title={messages.archive.title} description={messages.archive.description} path="/blog/archive" />
+      <Link to="/blog" className={`${backLinkClass} mb-6 block`}>
+        {messages.blog.backToBlog}
+      </Link>
+
+      <h1 className="mb-2 text-[clamp(1.3rem,3vw,1.8rem)] font-bold text-site-accent">
+        {messages.archive.title}
+      </h1>
+      <p className="mb-6 max-w-4xl text-sm leading-7 text-site-text-dim sm:mb-8 sm:text-base sm:leading-8">
+        {messages.archive.intro}
+      </p>
+
+      {archive.length === 0 ? (
+        <p className="italic text-site-text-dim">{messages.blog.empty}</p>
+      ) : (
+        <div className="space-y-6 rounded-sm border border-site-surface-border bg-site-surface p-4 sm:p-6">
+          {archive.map(({ year, count, months }) => (
+            <section key={year} aria-labelledby={`archive-${year}`}>
+              <h2 id={`archive-${year}`} className="mb-3 text-base font-semibold text-site-accent">
+                {year} <span className="text-xs font-normal text-site-text-dim">({messages.blog.postCount(count)})</span>
+              </h2>
+              <div className="space-y-4 border-s border-dashed border-site-surface-border ps-4">
+                {months.map(({ month, label, posts }) => (
+                  <section key={month} aria-labelledby={`archive-${year}-${month}`}>
+                    <h3 id={`archive-${year}-${month}`} className="mb-2 text-sm text-site-accent-dim">
+                      {label} <span className="text-xs text-site-text-dim">({messages.blog.postCount(posts.length)})</span>
+                    </h3>
+                    <ul className="space-y-1 text-sm">
+                      {posts.map((post) => (
+                        <li key={post.slug} className="flex gap-3">
+                          <time dateTime={post.date} className="shrink-0 text-xs leading-6 text-site-text-dim">
+                            {formatPostDate(post.date)}
+                          </time>
+                          <PostLink
+                            slug={post.slug}
+                            className="leading-6 text-site-text transition-colors duration-100 hover:text-site-accent hover:no-underline"
+                          >
+                            {post.title}
+                          </PostLink>
+                        </li>
+                      ))}
+                    </ul>
+                  </section>
+                ))}
+              </div>
+            </section>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
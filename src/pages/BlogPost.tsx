@@ -1,58 +1,226 @@
-import { useParams, Link } from 'react-router-dom';
+import { useEffect, useState } from 'react';
+import { useParams, Link, Navigate, useLocation } from 'react-router-dom';
 import { MDXProvider } from '@mdx-js/react';
-import { getPostBySlug } from '../lib/posts';
+import {
+  blogPagePath,
+  formatPostDate,
+  getPostBySlug,
+  getPostNeighbours,
+  getRedirectTarget,
+  getSeries,
+  getTranslations,
+  loadPostBody,
+  peekPostBody,
+  postPath,
+} from '../lib/posts';
+import type { PostBody, PostMeta } from '../lib/posts';
+import { blogPostingJsonLd } from '../lib/head';
+import { LOCALE_INFO } from '../lib/i18n';
+import { useI18n } from '../lib/use-i18n';
+import { OG_IMAGE_HEIGHT, OG_IMAGE_WIDTH, ogImagePath } from '../lib/og-image';
+import { flattenToc } from '../lib/toc';
+import Head from '../components/Head';
+import PostDateline from '../components/PostDateline';
+import PostHistory from '../components/PostHistory';
+import PostNavigation from '../components/PostNavigation';
+import ResponsiveImage from '../components/ResponsiveImage';
+import SeriesBox from '../components/SeriesBox';
+import TagList from '../components/TagList';
+import TableOfContents from '../components/TableOfContents';
 import { mdxComponents } from '../components/MDXComponents';
 
 const backLinkClass =
   'inline-block text-sm text-site-accent-dim transition-colors duration-100 hover:text-site-accent hover:no-underline';
 
+type BodyState =
+  | { slug: string; status: 'ready'; body: PostBody }
+  | { slug: string; status: 'loading' | 'error' };
+
+/** Loads the post's body chunk, starting from the cache when a prefetch already finished. */
+function usePostBody(slug: string | undefined): BodyState | undefined {
+  const [state, setState] = useState<BodyState | undefined>(undefined);
+
+  useEffect(() => {
+    if (!slug || !getPostBySlug(slug)) return;
+    let cancelled = false;
+    loadPostBody(slug).then(
+      (body) => !cancelled && setState({ slug, status: 'ready', body }),
+      () => !cancelled && setState({ slug, status: 'error' }),
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [slug]);
+
+  if (!slug) return undefined;
+  if (state?.slug === slug) return state;
+  const cached = peekPostBody(slug);
+  return cached ? { slug, status: 'ready', body: cached } : { slug, status: 'loading' };
+}
+
+function PostBodyLoading({ source }: { source: string }) {
+  const { messages } = useI18n();
+  return (
+    <div role="status" className="space-y-1 text-sm text-site-text-dim">
+      <p>
+        <span className="text-site-accent">{'$'}</span> cat posts/{source}
+      </p>
+      <p>
+        {messages.post.loading}<span className="animate-pulse">_</span>
+      </p>
+    </div>
+  );
+}
+
+/** Links to the post's other versions, each labelled in its own language. */
+function TranslationLinks({ current, translations }: { current: PostMeta; translations: PostMeta[] }) {
+  const { messages } = useI18n();
+  const others = translations.filter((post) => post.slug !== current.slug);
+  if (others.length === 0) return null;
+
+  return (
+    <p className="mt-1 flex flex-wrap gap-x-2 text-xs text-site-text-dim">
+      {messages.post.translations}
+      {others.map((post) => (
+        <Link
+          key={post.slug}
+          to={postPath(post.slug, post.lang)}
+          hrefLang={post.lang}
+          lang={post.lang}
+          className="text-site-accent-dim transition-colors duration-100 hover:text-site-accent hover:no-underline"
+        >
+          [{LOCALE_INFO[post.lang].label}]
+        </Link>
+      ))}
+    </p>
+  );
+}
+
 export default function BlogPost() {
   const { slug } = useParams<{ slug: string }>();
-  const post = slug ? getPostBySlug(slug) : undefined;
+  const { pathname, hash } = useLocation();
+  const { locale, messages } = useI18n();
+  const meta = slug ? getPostBySlug(slug) : undefined;
+  const bodyState = usePostBody(slug);
+  const body = bodyState?.status === 'ready' ? bodyState.body : undefined;
+
+  // Client-side navigation to `/blog/foo#setup` renders the post after the
+  // browser's own hash handling, so jump to the section once the body exists.
+  useEffect(() => {
+    if (!hash || !body) return;
+    document.getElementById(decodeURIComponent(hash.slice(1)))?.scrollIntoView();
+  }, [hash, body]);
+
+  if (!meta) {
+    // `/blog/old-name` matches this route before the catch-all sees the alias.
+    const target = getRedirectTarget(pathname);
+    if (target) {
+      return <Navigate to={{ pathname: target, hash }} replace />;
+    }
 
-  if (!post) {
     return (
       <div className="w-full space-y-4">
+        <Head title={messages.notFound.title} description={messages.post.notFound} path={pathname} noindex />
         <p className="text-base text-red-500">
-          {'>'} ERROR: post not found.
+          {'>'} ERROR: {messages.post.notFound}
         </p>
-        <Link to="/blog" className={backLinkClass}>
-          {'<'}- back to blog
+        <Link to={blogPagePath(1, locale)} className={backLinkClass}>
+          {messages.blog.backToBlog}
         </Link>
       </div>
     );
   }
 
-  const { meta, Component } = post;
+  // A post only lives under its own language's prefix.
+  if (meta.lang !== locale) {
+    return <Navigate to={{ pathname: postPath(meta.slug, meta.lang), hash }} replace />;
+  }
+
+  const tableOfContents = body?.tableOfContents ?? [];
+  const showToc = flattenToc(tableOfContents).length >= 2;
+  const series = meta.series ? getSeries(meta.series) : undefined;
+  const translations = getTranslations(meta.slug);
+  const path = postPath(meta.slug, meta.lang);
 
   return (
-    <div className="mx-auto w-full max-w-5xl">
-      <Link to="/blog" className={`${backLinkClass} mb-6 block`}>
-        {'<'}- back to blog
+    <div className={`mx-auto w-full max-w-5xl ${showToc ? 'xl:max-w-6xl' : ''}`}>
+      <Head
+        title={meta.title}
+        description={meta.description}
+        path={path}
+        alternates={translations.map((post) => ({ locale: post.lang, path: postPath(post.slug, post.lang) }))}
+        type="article"
+        article={{ publishedTime: meta.date, modifiedTime: meta.updated, tags: meta.tags }}
+        image={{ path: ogImagePath(meta.slug), width: OG_IMAGE_WIDTH, height: OG_IMAGE_HEIGHT, alt: meta.title }}
+        jsonLd={blogPostingJsonLd({ ...meta, path, image: ogImagePath(meta.slug) })}
+      />
+      <Link to={blogPagePath(1, locale)} className={`${backLinkClass} mb-6 block`}>
+        {messages.blog.backToBlog}
       </Link>
 
-      <article className="rounded-sm border border-site-surface-border bg-site-surface px-4 py-5 sm:px-8 sm:py-8 md:px-10 md:py-9 lg:px-12 lg:py-10">
-        <header className="mb-8 border-b border-dashed border-site-surface-border pb-6">
-          <span className="text-xs text-site-text-dim">{meta.date}</span>
-          <h1 className="my-2 text-[clamp(1.1rem,3vw,1.5rem)] font-bold leading-normal text-site-accent">
-            {meta.title}
-          </h1>
-          <p className="mb-3 text-site-text-dim">{meta.description}</p>
-          <div className="flex flex-wrap gap-2">
-            {meta.tags.map((tag) => (
-              <span key={tag} className="text-xs text-site-accent-dim">
-                [{tag}]
-              </span>
-            ))}
-          </div>
-        </header>
-
-        <div className="min-w-0 wrap-break-word">
-          <MDXProvider components={mdxComponents}>
-            <Component />
-          </MDXProvider>
+      <div className={showToc ? 'xl:grid xl:grid-cols-[minmax(0,1fr)_15rem] xl:gap-8' : undefined}>
+        <div className="min-w-0">
+          <article className="rounded-sm border border-site-surface-border bg-site-surface px-4 py-5 sm:px-8 sm:py-8 md:px-10 md:py-9 lg:px-12 lg:py-10">
+            <header className="mb-8 border-b border-dashed border-site-surface-border pb-6">
+              {meta.cover && (
+                <ResponsiveImage
+                  image={meta.cover}
+                  alt=""
+                  loading="eager"
+                  fetchPriority="high"
+                  className="mb-6 h-auto w-full rounded-sm border border-site-surface-border object-cover"
+                />
+              )}
+              <PostDateline post={meta} />
+              {meta.updated && (
+                <p className="mt-1 text-xs text-site-text-dim">
+                  {messages.post.updated} <time dateTime={meta.updated}>{formatPostDate(meta.updated)}</time>
+                </p>
+              )}
+              <h1 className="my-2 text-[clamp(1.1rem,3vw,1.5rem)] font-bold leading-normal text-site-accent">
+                {meta.title}
+              </h1>
+              <p className="mb-3 text-site-text-dim">{meta.description}</p>
+              <TagList tags={meta.tags} />
+              <TranslationLinks current={meta} translations={translations} />
+            </header>
+
+            {series && <SeriesBox series={series} currentSlug={meta.slug} />}
+
+            {showToc && (
+              <div className="xl:hidden">
+                <TableOfContents entries={tableOfContents} variant="collapsible" />
+              </div>
+            )}
+
+            {/* Posts with sidenotes (src/components/FootnoteRef.tsx) keep a margin for them on wide screens. */}
+            <div className="relative min-w-0 wrap-break-word xl:has-[[data-footnote-ref]]:pe-64">
+              {body ? (
+                <>
+                  <MDXProvider components={mdxComponents}>
+                    <body.Component />
+                  </MDXProvider>
+                  <PostHistory history={body.history} />
+                </>
+              ) : bodyState?.status === 'error' ? (
+                <p className="text-base text-red-500">
+                  {'>'} ERROR: {messages.post.loadError}
+                </p>
+              ) : (
+                <PostBodyLoading source={meta.source} />
+              )}
+            </div>
+          </article>
+
+          <PostNavigation neighbours={getPostNeighbours(meta.slug)} />
         </div>
-      </article>
+
+        {showToc && (
+          <aside className="hidden xl:block">
+            <TableOfContents entries={tableOfContents} variant="sidebar" />
+          </aside>
+        )}
+      </div>
     </div>
   );
 }
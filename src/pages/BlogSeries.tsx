@@ -0,0 +1,57 @@
+import { useParams, Link } from 'react-router-dom';
+import { getSeries, seriesPath } from '../lib/posts';
+import { useI18n } from '../lib/use-i18n';
+import Head from '../components/Head';
+import PostCard from '../components/PostCard';
+
+const backLinkClass =
+  'inline-block text-sm text-site-accent-dim transition-colors duration-100 hover:text-site-accent hover:no-underline';
+
+export default function BlogSeries() {
+  const { id } = useParams<{ id: string }>();
+  const series = id ? getSeries(id) : undefined;
+  const { messages } = useI18n();
+
+  if (!series) {
+    return (
+      <div className="w-full space-y-4">
+        <Head title={messages.notFound.title} description={messages.series.notFound} path={seriesPath(id ?? '')} noindex />
+        <p className="text-base text-red-500">
+          {'>'} ERROR: {messages.series.notFound}
+        </p>
+        <Link to="/blog" className={backLinkClass}>
+          {messages.blog.backToBlog}
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mx-auto w-full max-w-5xl">
+      <Head
+        title={series.id}
+        description={messages.series.parts(series.partCount)}
+        path={seriesPath(series.id)}
+      />
+      <Link to="/blog" className={`${backLinkClass} mb-6 block`}>
+        {messages.blog.backToBlog}
+      </Link>
+
+      <h1 className="mb-2 text-[clamp(1.3rem,3vw,1.8rem)] font-bold text-site-accent">
+        {series.id}
+      </h1>
+      <p className="mb-6 max-w-4xl text-sm leading-7 text-site-text-dim sm:mb-8 sm:text-base sm:leading-8">
+        {messages.series.readingOrder(series.partCount)}
+      </p>
+
+      <ol className="space-y-3 sm:space-y-4">
+        {series.parts.map(({ part, post }) => (
+          <li key={post.slug}>
+            <p className="mb-1 text-xs text-site-text-dim">{messages.post.partLink(part)}</p>
+            <PostCard post={post} />
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
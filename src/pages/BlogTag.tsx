@@ -0,0 +1,58 @@
+import { useParams, Link } from 'react-router-dom';
+import { getPostsByTag, getTagBySlug, tagPath } from '../lib/posts';
+import { useI18n } from '../lib/use-i18n';
+import Head from '../components/Head';
+import PostCard from '../components/PostCard';
+
+const backLinkClass =
+  'inline-block text-sm text-site-accent-dim transition-colors duration-100 hover:text-site-accent hover:no-underline';
+
+export default function BlogTag() {
+  const { tag: slug } = useParams<{ tag: string }>();
+  const summary = slug ? getTagBySlug(slug) : undefined;
+  const { messages } = useI18n();
+
+  if (!summary) {
+    return (
+      <div className="w-full space-y-4">
+        <Head title={messages.notFound.title} description={messages.tags.notFound} path={tagPath(slug ?? '')} noindex />
+        <p className="text-base text-red-500">
+          {'>'} ERROR: {messages.tags.notFound}
+        </p>
+        <Link to="/blog/tags" className={backLinkClass}>
+          {messages.tags.allTags}
+        </Link>
+      </div>
+    );
+  }
+
+  const posts = getPostsByTag(summary.slug);
+
+  return (
+    <div className="mx-auto w-full max-w-5xl">
+      <Head
+        title={`[${summary.tag}]`}
+        description={messages.tags.taggedPosts(summary.tag)}
+        path={tagPath(summary.tag)}
+      />
+      <Link to="/blog/tags" className={`${backLinkClass} mb-6 block`}>
+        {messages.tags.allTags}
+      </Link>
+
+      <h1 className="mb-2 text-[clamp(1.3rem,3vw,1.8rem)] font-bold text-site-accent">
+        [{summary.tag}]
+      </h1>
+      <p className="mb-6 max-w-4xl text-sm leading-7 text-site-text-dim sm:mb-8 sm:text-base sm:leading-8">
+        {messages.tags.taggedCount(summary.count, summary.tag)}
+      </p>
+
+      <ul className="space-y-3 sm:space-y-4">
+        {posts.map((post) => (
+          <li key={post.slug}>
+            <PostCard post={post} />
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import { Link } from 'react-router-dom';
+import { getAllTags, tagPath } from '../lib/posts';
+import { useI18n } from '../lib/use-i18n';
+import Head from '../components/Head';
+
+const backLinkClass =
+  'inline-block text-sm text-site-accent-dim transition-colors duration-100 hover:text-site-accent hover:no-underline';
+
+// Cloud sizes, smallest to largest; a tag's step is its share of the busiest tag's count.
+const cloudSizeClasses = ['text-xs', 'text-sm', 'text-base', 'text-lg sm:text-xl'];
+
+export default function BlogTags() {
+  const tags = getAllTags();
+  const maxCount = Math.max(1, ...tags.map((summary) => summary.count));
+  const { messages } = useI18n();
+
+  return (
+    <div className="mx-auto w-full max-w-5xl">
+      <Head title={messages.tags.title} description={messages.tags.description} path="/blog/tags" />
+      <Link to="/blog" className={`${backLinkClass} mb-6 block`}>
+        {messages.blog.backToBlog}
+      </Link>
+
+      <h1 className="mb-2 text-[clamp(1.3rem,3vw,1.8rem)] font-bold text-site-accent">
+        {messages.tags.title}
+      </h1>
+      <p className="mb-6 max-w-4xl text-sm leading-7 text-site-text-dim sm:mb-8 sm:text-base sm:leading-8">
+        {messages.tags.description}
+      </p>
+
+      {tags.length === 0 ? (
+        <p className="italic text-site-text-dim">{messages.tags.empty}</p>
+      ) : (
+        <ul className="flex flex-wrap items-baseline gap-x-5 gap-y-3 rounded-sm border border-site-surface-border bg-site-surface p-4 sm:p-6">
+          {tags.map(({ tag, count }) => {
+            const step = Math.round((count / maxCount) * (cloudSizeClasses.length - 1));
+            return (
+              <li key={tag} className={cloudSizeClasses[step]}>
+                <Link
+                  to={tagPath(tag)}
+                  className="text-site-accent-dim transition-colors duration-100 hover:text-site-accent hover:no-underline"
+                >
+                  [{tag}]
+                </Link>
+                <span className="ms-1 text-[0.7rem] text-site-text-dim">
+                  {messages.blog.postCount(count)}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
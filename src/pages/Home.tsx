@@ -1,12 +1,20 @@
 import { Link } from 'react-router-dom';
-import { getAllPosts } from '../lib/posts';
+import { DEFAULT_LOCALE } from '../lib/i18n';
+import { getPostsByLocale } from '../lib/posts';
+import { SITE_AUTHOR, SITE_DESCRIPTION } from '../lib/site';
+import Head from '../components/Head';
+import PostDateline from '../components/PostDateline';
+import PostLink from '../components/PostLink';
+import ResponsiveImage from '../components/ResponsiveImage';
+import TagList from '../components/TagList';
 
 export default function Home() {
-  const posts = getAllPosts();
+  const posts = getPostsByLocale(DEFAULT_LOCALE);
   const latestPosts = posts.slice(0, 3);
 
   return (
     <div className="mx-auto flex w-full max-w-5xl flex-col gap-6 sm:gap-8">
+      <Head title={SITE_AUTHOR} description={SITE_DESCRIPTION} path="/" />
       <section className="rounded-sm border border-site-surface-border bg-site-surface/95 p-5 sm:p-6">
         <h1 className="mb-4 text-[clamp(1.1rem,3vw,1.75rem)] font-bold leading-[1.2] text-site-accent">
           Mohamed Chiboub
@@ -38,26 +46,32 @@ export default function Home() {
         ) : (
           <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
             {latestPosts.map((post) => (
-              <Link
+              <article
                 key={post.slug}
-                to={`/blog/${post.slug}`}
-                className="group rounded-sm border border-site-surface-border bg-black/20 p-4 transition-colors duration-100 hover:border-site-accent hover:no-underline"
+                className="group relative rounded-sm border border-site-surface-border bg-black/20 p-4 transition-colors duration-100 hover:border-site-accent"
               >
-                <p className="text-xs text-site-text-dim">{post.date}</p>
-                <h3 className="mt-2 text-base font-semibold leading-6 text-site-text transition-colors duration-100 group-hover:text-site-accent">
-                  {post.title}
+                {post.cover && (
+                  <ResponsiveImage
+                    image={post.cover}
+                    alt=""
+                    sizes="(min-width: 64rem) 20rem, (min-width: 40rem) 50vw, 100vw"
+                    className="mb-3 aspect-[2/1] h-auto w-full rounded-sm border border-site-surface-border object-cover"
+                  />
+                )}
+                <PostDateline post={post} />
+                <h3 className="mt-2 text-base font-semibold leading-6">
+                  <PostLink
+                    slug={post.slug}
+                    className="text-site-text transition-colors duration-100 after:absolute after:inset-0 group-hover:text-site-accent hover:no-underline"
+                  >
+                    {post.title}
+                  </PostLink>
                 </h3>
                 <p className="mt-2 text-sm leading-7 text-site-text-dim">
                   {post.description}
                 </p>
-                <div className="mt-3 flex flex-wrap gap-2">
-                  {post.tags.map((tag) => (
-                    <span key={tag} className="text-[0.72rem] text-site-accent-dim">
-                      [{tag}]
-                    </span>
-                  ))}
-                </div>
-              </Link>
+                <TagList tags={post.tags} className="mt-3 text-[0.72rem]" />
+              </article>
             ))}
           </div>
         )}
@@ -0,0 +1,34 @@
+import { Link, Navigate, useLocation } from 'react-router-dom';
+import { DEFAULT_LOCALE } from '../lib/i18n';
+import { blogPagePath, getRedirectTarget } from '../lib/posts';
+import { useI18n } from '../lib/use-i18n';
+import Head from '../components/Head';
+
+const backLinkClass =
+  'inline-block text-sm text-site-accent-dim transition-colors duration-100 hover:text-site-accent hover:no-underline';
+
+/** Catch-all route: follows a post's old URL (a frontmatter alias), otherwise reports the miss. */
+export default function NotFound() {
+  const { pathname, hash } = useLocation();
+  const { locale, messages } = useI18n();
+  const target = getRedirectTarget(pathname);
+
+  if (target) {
+    return <Navigate to={{ pathname: target, hash }} replace />;
+  }
+
+  // Only English has a home page; other languages start at their blog index.
+  const backPath = locale === DEFAULT_LOCALE ? '/' : blogPagePath(1, locale);
+
+  return (
+    <div className="w-full space-y-4">
+      <Head title={messages.notFound.title} description={messages.notFound.description} path={pathname} noindex />
+      <p className="text-base text-red-500">
+        {'>'} ERROR: {messages.notFound.noSuchPage(pathname)}
+      </p>
+      <Link to={backPath} className={backLinkClass}>
+        {messages.notFound.back}
+      </Link>
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+declare module 'virtual:search-index' {
+  const index: import('./lib/search').SearchIndex;
+  export default index;
+}
+
+declare module 'virtual:post-manifest' {
+  /** Newest first, without drafts and scheduled posts in production builds. */
+  export const posts: Array<Omit<import('./lib/frontmatter').Frontmatter, 'cover'> & {
+    cover: import('./lib/images').ResponsiveImageData | undefined;
+    slug: string;
+    /** Path relative to src/content/blog. */
+    source: string;
+    wordCount: number;
+    readingMinutes: number;
+  }>;
+  export const links: Record<string, import('./lib/post-links').PostLinks>;
+  /**
+   * Series id -> published parts in reading order, each with its part number,
+   * and the number of parts including unpublished ones.
+   */
+  export const series: Record<string, { parts: Array<{ slug: string; part: number }>; partCount: number }>;
+  /** Translation key -> slugs of its versions, in `LOCALES` order. */
+  export const translations: Record<string, string[]>;
+  /** Alias path -> slug of the post it redirects to. */
+  export const redirects: Record<string, string>;
+}
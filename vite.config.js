@@ -1,10 +1,13 @@
 import { defineConfig } from 'vite'
 import mdx from '@mdx-js/rollup'
 import react from '@vitejs/plugin-react'
-import remarkFrontmatter from 'remark-frontmatter'
-import remarkGfm from 'remark-gfm'
-import remarkMdxFrontmatter from 'remark-mdx-frontmatter'
-import rehypeShiki from '@shikijs/rehype'
+import { createMdxOptions } from './plugins/mdx-options.js'
+import feeds from './plugins/vite-plugin-feeds.js'
+import images from './plugins/vite-plugin-images.js'
+import ogImages from './plugins/vite-plugin-og-images.js'
+import postManifest from './plugins/vite-plugin-post-manifest.js'
+import prerender from './plugins/vite-plugin-prerender.js'
+import searchIndex from './plugins/vite-plugin-search-index.js'
 
 export default defineConfig(({ mode }) => ({
   plugins: [
@@ -12,17 +15,16 @@ export default defineConfig(({ mode }) => ({
       enforce: 'pre',
       ...mdx({
         providerImportSource: '@mdx-js/react',
-        remarkPlugins: [
-          remarkGfm,
-          remarkFrontmatter,
-          [remarkMdxFrontmatter, { name: 'frontmatter' }],
-        ],
-        rehypePlugins: [
-          [rehypeShiki, { theme: 'vitesse-dark' }],
-        ],
+        ...createMdxOptions({ mode }),
       }),
     },
+    postManifest(),
     react({ include: /\.(jsx|js|mdx|md|tsx|ts)$/ }),
+    feeds(),
+    ogImages(),
+    images(),
+    searchIndex(),
+    prerender(),
   ],
   build: {
     rolldownOptions: {